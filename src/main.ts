@@ -1,7 +1,10 @@
-import { Plugin, MarkdownPostProcessorContext, TFile } from 'obsidian';
+import { Plugin, MarkdownPostProcessorContext, TFile, moment } from 'obsidian';
 import { DEFAULT_SETTINGS, HabitTrackerSettingTab } from "./settings";
-import { HabitTrackerSettings, TrackerConfig, AggregateMethod } from "./types";
+import { HabitTrackerSettings, TrackerConfig, AggregateMethod, GoalMilestone } from "./types";
+import { evaluateExpression, getExpressionReferences, isGoalExpression } from "./utils/expression";
+import { parseTextMatch, parseWhereClause } from "./utils/filter";
 import { FileScanner } from "./utils/scanner";
+import { parseWeekday } from "./utils/weekday";
 import { TrackerRenderer } from "./ui/renderer";
 
 export default class HabitTrackerPlugin extends Plugin {
@@ -15,7 +18,7 @@ export default class HabitTrackerPlugin extends Plugin {
 		await this.loadSettings();
 
 		// Initialize scanner and renderer
-		this.scanner = new FileScanner(this.app.vault);
+		this.scanner = new FileScanner(this.app.vault, this.app.metadataCache);
 		this.renderer = new TrackerRenderer();
 
 		// Register the table-dashboard code block processor
@@ -47,6 +50,13 @@ export default class HabitTrackerPlugin extends Plugin {
 				void this.refreshAllTrackers();
 			})
 		);
+
+		// Tags, links and frontmatter come from the metadata cache, which catches up after the vault events
+		this.registerEvent(
+			this.app.metadataCache.on('resolved', () => {
+				void this.refreshAllTrackers(config => this.usesMetadataCache(config));
+			})
+		);
 	}
 
 	onunload() {
@@ -158,19 +168,27 @@ export default class HabitTrackerPlugin extends Plugin {
 	 * Parse block-level config and split tracker sections
 	 */
 	private parseBlockAndTrackers(source: string): { 
-		blockConfig: { layout?: string; gridColumns?: number; source?: string; tableTag?: string }; 
+		blockConfig: { layout?: string; gridColumns?: number; source?: string; tableTag?: string; anchor?: string }; 
 		trackerSections: string[] 
 	} {
-		const blockConfig: { layout?: string; gridColumns?: number; source?: string; tableTag?: string } = {};
+		const blockConfig: { layout?: string; gridColumns?: number; source?: string; tableTag?: string; anchor?: string } = {};
 		
 		// Block-level only attributes (not widget-specific)
 		const blockOnlyAttrs = ['layout', 'gridcolumns', 'grid_columns'];
 		// Attributes that are widget-specific (indicate a tracker section)
 		const widgetAttrs = ['type', 'keycolumn', 'key_column', 'valuecolumn', 'value_column', 
-			'key', 'value', 'pattern', 'goal', 'goalcolumn', 'goal_column', 'aggregate', 
-			'useregex', 'use_regex', 'period', 'label'];
+			'key', 'keys', 'value', 'pattern', 'goal', 'goalcolumn', 'goal_column', 'aggregate', 
+			'useregex', 'use_regex', 'period', 'label', 'datecolumn', 'date_column',
+			'daycolumns', 'day_columns', 'streakgrace', 'streak_grace', 'streakthrough', 'streak_through',
+			'streakunit', 'streak_unit', 'streakthreshold', 'streak_threshold', 'from', 'to',
+			'dateformat', 'date_format', 'datesource', 'date_source', 'compare',
+			'rowaggregate', 'row_aggregate', 'fileaggregate', 'file_aggregate', 'bucketaggregate', 'bucket_aggregate',
+			'groupby', 'group_by', 'cumulative', 'smoothing', 'trendline', 'trend_line',
+			'goaltype', 'goal_type', 'goalmin', 'goal_min', 'goalmax', 'goal_max',
+			'goalper', 'goal_per', 'goalscale', 'goal_scale', 'goalweekdays', 'goal_weekdays', 'where',
+			'keymatch', 'key_match', 'valuematch', 'value_match', 'valuemap', 'value_map'];
 		// Attributes that can be block-level defaults OR widget-specific
-		const sharedAttrs = ['source', 'tabletag', 'table_tag'];
+		const sharedAttrs = ['source', 'tabletag', 'table_tag', 'anchor'];
 		
 		// First, check if there are multiple widgets (separated by ---)
 		let sections: string[];
@@ -234,6 +252,8 @@ export default class HabitTrackerPlugin extends Plugin {
 						blockConfig.source = value;
 					} else if (key === 'tabletag' || key === 'table_tag') {
 						blockConfig.tableTag = value;
+					} else if (key === 'anchor') {
+						blockConfig.anchor = value;
 					}
 				} else {
 					widgetLines.push(line);
@@ -265,7 +285,7 @@ export default class HabitTrackerPlugin extends Plugin {
 	 */
 	private parseTrackerConfig(
 		source: string, 
-		blockDefaults?: { source?: string; tableTag?: string }
+		blockDefaults?: { source?: string; tableTag?: string; anchor?: string }
 	): TrackerConfig {
 		const lines = source.split('\n');
 		const config: Partial<TrackerConfig> = {};
@@ -302,17 +322,55 @@ export default class HabitTrackerPlugin extends Plugin {
 					config.keyColumn = value;
 					break;
 				case 'key':
-					config.key = value;
+					config.key = this.parseList(value) ?? value;
+					break;
+				case 'keys':
+					config.keys = this.parseList(value) ?? value.split(',').map(k => k.trim()).filter(k => k);
 					break;
 				case 'valuecolumn':
 				case 'value_column':
 					config.valueColumn = value;
 					break;
 				case 'value':
-					config.value = value;
+					config.value = this.parseList(value) ?? value;
+					break;
+				case 'datecolumn':
+				case 'date_column':
+					config.dateColumn = value;
+					break;
+				case 'daycolumns':
+				case 'day_columns':
+					config.dayColumns = value.toLowerCase() === 'auto'
+						? 'auto'
+						: value.split(',').map(c => c.trim()).filter(c => c);
+					break;
+				case 'where':
+					config.where = value;
+					break;
+				case 'valuemap':
+				case 'value_map':
+					config.valueMap = this.parseValueMap(value);
+					break;
+				case 'keymatch':
+				case 'key_match':
+					config.keyMatch = parseTextMatch(value);
+					break;
+				case 'valuematch':
+				case 'value_match':
+					config.valueMatch = parseTextMatch(value);
 					break;
 				case 'aggregate':
-					config.aggregate = value as AggregateMethod;
+					config.aggregate = value.toLowerCase() as AggregateMethod;
+					break;
+				case 'rowaggregate':
+				case 'row_aggregate':
+					config.rowAggregate = value.toLowerCase() as AggregateMethod;
+					break;
+				case 'fileaggregate':
+				case 'file_aggregate':
+				case 'bucketaggregate':
+				case 'bucket_aggregate':
+					config.fileAggregate = value.toLowerCase() as AggregateMethod;
 					break;
 				case 'pattern':
 					config.pattern = value;
@@ -321,15 +379,111 @@ export default class HabitTrackerPlugin extends Plugin {
 				case 'use_regex':
 					config.useRegex = value.toLowerCase() === 'true';
 					break;
-				case 'goal':
-					config.goal = parseInt(value, 10);
+				case 'goal': {
+					// References and arithmetic are resolved when scanning; check the syntax now
+					if (isGoalExpression(value)) {
+						let result: number;
+						try {
+							result = evaluateExpression(value, () => 1);
+						} catch (e) {
+							throw new Error(`Invalid goal: ${e instanceof Error ? e.message : String(e)}`);
+						}
+						// Plain arithmetic can be checked now, e.g. "7-9" meant as a range
+						if (getExpressionReferences(value).length === 0 && !(result > 0)) {
+							throw new Error(`Invalid goal: "${value}" is ${result}, not a positive number`);
+						}
+						config.goalExpression = value;
+						break;
+					}
+
+					// A list of values (optionally name=value) sets milestones; the highest is the goal
+					const milestones = this.parseMilestones(value);
+					if (milestones.length > 1 || milestones[0]?.name) {
+						config.milestones = milestones;
+					}
+					config.goal = milestones[milestones.length - 1]?.value;
+					break;
+				}
+				case 'goaltype':
+				case 'goal_type':
+					config.goalType = value.toLowerCase() as TrackerConfig['goalType'];
+					break;
+				case 'goalmin':
+				case 'goal_min':
+					config.goalMin = parseFloat(value);
+					break;
+				case 'goalmax':
+				case 'goal_max':
+					config.goalMax = parseFloat(value);
+					break;
+				case 'goalper':
+				case 'goal_per':
+					config.goalPer = value.toLowerCase() as TrackerConfig['goalPer'];
+					break;
+				case 'goalscale':
+				case 'goal_scale':
+					config.goalScale = value.toLowerCase() as TrackerConfig['goalScale'];
+					break;
+				case 'goalweekdays':
+				case 'goal_weekdays':
+					config.goalWeekdays = value.split(',').map(d => d.trim()).filter(d => d);
 					break;
 				case 'goalcolumn':
 				case 'goal_column':
 					config.goalColumn = value;
 					break;
 				case 'period':
-					config.period = value as TrackerConfig['period'];
+					config.period = value.toLowerCase() as TrackerConfig['period'];
+					break;
+				case 'dateformat':
+				case 'date_format':
+					config.dateFormat = value;
+					break;
+				case 'datesource':
+				case 'date_source':
+					config.dateSource = value.split(',').map(d => d.trim()).filter(d => d);
+					break;
+				case 'compare':
+					config.compare = value.toLowerCase() as TrackerConfig['compare'];
+					break;
+				case 'anchor':
+					config.anchor = value.toLowerCase() as TrackerConfig['anchor'];
+					break;
+				case 'from':
+					config.from = value;
+					break;
+				case 'to':
+					config.to = value;
+					break;
+				case 'streakunit':
+				case 'streak_unit':
+					config.streakUnit = value.toLowerCase() as TrackerConfig['streakUnit'];
+					break;
+				case 'streakthreshold':
+				case 'streak_threshold':
+					config.streakThreshold = parseFloat(value);
+					break;
+				case 'streakgrace':
+				case 'streak_grace':
+					config.streakGrace = parseInt(value, 10);
+					break;
+				case 'streakthrough':
+				case 'streak_through':
+					config.streakThrough = value.toLowerCase() as TrackerConfig['streakThrough'];
+					break;
+				case 'groupby':
+				case 'group_by':
+					config.groupBy = value.toLowerCase() as TrackerConfig['groupBy'];
+					break;
+				case 'cumulative':
+					config.cumulative = value.toLowerCase() === 'true';
+					break;
+				case 'smoothing':
+					config.smoothing = parseInt(value, 10);
+					break;
+				case 'trendline':
+				case 'trend_line':
+					config.trendline = value.toLowerCase() as TrackerConfig['trendline'];
 					break;
 				case 'label':
 					config.label = value;
@@ -348,6 +502,7 @@ export default class HabitTrackerPlugin extends Plugin {
 		if (blockDefaults) {
 			if (blockDefaults.source && !config.source) config.source = blockDefaults.source;
 			if (blockDefaults.tableTag && !config.tableTag) config.tableTag = blockDefaults.tableTag;
+			if (blockDefaults.anchor && !config.anchor) config.anchor = blockDefaults.anchor.toLowerCase() as TrackerConfig['anchor'];
 		}
 
 		// Validate required fields
@@ -355,21 +510,28 @@ export default class HabitTrackerPlugin extends Plugin {
 			throw new Error('Missing required field: type');
 		}
 		if (!config.source) {
-			throw new Error('Missing required field: source (e.g., "current-file", "folder:Daily Notes", "file:path/to/file.md")');
+			throw new Error('Missing required field: source (e.g., "current-file", "folder:Daily Notes", "file:path/to/file.md", "tag:#workout")');
 		}
 
 		// Validate source format and extract folder path if needed
 		this.validateSource(config.source);
 
 		// Table mode validation
-		const isTableMode = config.keyColumn || config.valueColumn;
+		const isTableMode = config.keyColumn || config.valueColumn || config.dayColumns;
 		if (isTableMode) {
 			if (!config.keyColumn) {
 				throw new Error('keyColumn is required for table mode');
 			}
-			if (!config.valueColumn) {
+			if (!config.valueColumn && !config.dayColumns) {
 				throw new Error('valueColumn is required for table mode');
 			}
+			if (config.dayColumns && config.dateColumn) {
+				throw new Error('Cannot use both dayColumns (weekly grid) and dateColumn together');
+			}
+			// Mapped cells are numbers, so numeric is the natural fallback for unmapped ones
+			if (!config.value && config.valueMap) {
+				config.value = 'numeric';
+			}
 			if (!config.value) {
 				throw new Error('value is required for table mode (e.g., "numeric", "any", or a text pattern like "✓")');
 			}
@@ -383,6 +545,108 @@ export default class HabitTrackerPlugin extends Plugin {
 		if (!isTableMode && !isPatternMode) {
 			throw new Error('Either table mode (keyColumn, valueColumn, value) or pattern mode (pattern) must be specified');
 		}
+		if (config.dateColumn && !isTableMode) {
+			throw new Error('dateColumn requires table mode (keyColumn, valueColumn, value)');
+		}
+		for (const [name, match, patterns] of [
+			['key', config.keyMatch, ([] as string[]).concat(config.key ?? [], config.keys ?? [])],
+			['value', config.valueMatch, ([] as string[]).concat(config.value ?? [])]
+		] as const) {
+			if (match?.mode !== 'regex') continue;
+			for (const pattern of patterns) {
+				try {
+					new RegExp(pattern);
+				} catch {
+					throw new Error(`Invalid ${name} regex: "${pattern}"`);
+				}
+			}
+		}
+		if (config.where) {
+			if (!isTableMode) {
+				throw new Error('where requires table mode (keyColumn, valueColumn, value)');
+			}
+			parseWhereClause(config.where);
+		}
+
+		const aggregates = [
+			['aggregate', config.aggregate], ['rowAggregate', config.rowAggregate], ['fileAggregate', config.fileAggregate]
+		] as const;
+		for (const [name, method] of aggregates) {
+			if (method && !this.isValidAggregate(method)) {
+				throw new Error(`Invalid ${name}: "${method}"`);
+			}
+		}
+
+		// Time filter validation
+		if (config.period && !this.isValidPeriod(config.period)) {
+			throw new Error(`Invalid period: "${config.period}"`);
+		}
+		if (config.compare && config.compare !== 'previous') {
+			throw new Error(`Invalid compare: "${String(config.compare)}". Use "previous"`);
+		}
+		// Goal validation
+		if (config.goalType && !['at-least', 'at-most', 'range'].includes(config.goalType)) {
+			throw new Error(`Invalid goalType: "${String(config.goalType)}". Use "at-least", "at-most" or "range"`);
+		}
+		if (config.goalType === 'range') {
+			if (config.goalMin === undefined || config.goalMax === undefined || isNaN(config.goalMin) || isNaN(config.goalMax)) {
+				throw new Error('goalType "range" requires goalMin and goalMax');
+			}
+			if (config.goalMin > config.goalMax) {
+				throw new Error('goalMin must not be greater than goalMax');
+			}
+		}
+		// The upper bound doubles as the goal, so bars and charts scale to it
+		if (config.goalType === 'range' || (config.goalType === 'at-most' && config.goal === undefined)) {
+			config.goal = config.goalMax;
+		}
+		if (config.goalType === 'at-most' && config.goal === undefined && !config.goalColumn && !config.goalExpression) {
+			throw new Error('goalType "at-most" requires goal (the limit), goalMax or goalColumn');
+		}
+
+		if (config.goalPer && config.goalPer !== 'day' && config.goalPer !== 'week') {
+			throw new Error(`Invalid goalPer: "${String(config.goalPer)}". Use "day" or "week"`);
+		}
+		if (config.goalScale && config.goalScale !== 'period' && config.goalScale !== 'elapsed') {
+			throw new Error(`Invalid goalScale: "${String(config.goalScale)}". Use "period" or "elapsed"`);
+		}
+		const unknownWeekday = config.goalWeekdays?.find(name => parseWeekday(name) === null);
+		if (unknownWeekday !== undefined) {
+			throw new Error(`Invalid goalWeekdays: "${unknownWeekday}". Use weekday names, e.g. "Mon, Wed, Fri"`);
+		}
+
+		if (config.groupBy && !['day', 'week', 'month'].includes(config.groupBy)) {
+			throw new Error(`Invalid groupBy: "${String(config.groupBy)}". Use "day", "week" or "month"`);
+		}
+		if (config.streakUnit && !['day', 'week', 'month'].includes(config.streakUnit)) {
+			throw new Error(`Invalid streakUnit: "${String(config.streakUnit)}". Use "day", "week" or "month"`);
+		}
+		if (config.streakThreshold !== undefined && isNaN(config.streakThreshold)) {
+			throw new Error('Invalid streakThreshold: use the value a day must reach (e.g., 20)');
+		}
+		if (config.streakGrace !== undefined && (isNaN(config.streakGrace) || config.streakGrace < 0)) {
+			throw new Error('Invalid streakGrace: use the number of missed units allowed (e.g., 1)');
+		}
+		if (config.streakThrough && config.streakThrough !== 'today' && config.streakThrough !== 'yesterday') {
+			throw new Error(`Invalid streakThrough: "${String(config.streakThrough)}". Use "today" or "yesterday"`);
+		}
+		if (config.smoothing !== undefined && (isNaN(config.smoothing) || config.smoothing < 1)) {
+			throw new Error('Invalid smoothing: use the number of points to average (e.g., 7)');
+		}
+		if (config.trendline && config.trendline !== 'linear') {
+			throw new Error(`Invalid trendline: "${String(config.trendline)}". Use "linear"`);
+		}
+		if (config.anchor && config.anchor !== 'now' && config.anchor !== 'note') {
+			throw new Error(`Invalid anchor: "${String(config.anchor)}". Use "now" or "note"`);
+		}
+		for (const [name, date] of [['from', config.from], ['to', config.to]] as const) {
+			if (date && !moment(date, 'YYYY-MM-DD', true).isValid()) {
+				throw new Error(`Invalid ${name} date: "${date}". Use YYYY-MM-DD`);
+			}
+		}
+		if (config.from && config.to && moment(config.from, 'YYYY-MM-DD').isAfter(moment(config.to, 'YYYY-MM-DD'))) {
+			throw new Error('from must not be later than to');
+		}
 
 		// Set defaults
 		if (!config.period) {
@@ -391,10 +655,78 @@ export default class HabitTrackerPlugin extends Plugin {
 		if (!config.aggregate) {
 			config.aggregate = 'count';
 		}
+		if (!config.dateFormat) {
+			config.dateFormat = this.settings.dateFormat;
+		}
 
 		return config as TrackerConfig;
 	}
 
+	/**
+	 * Check a period value: calendar periods, rolling windows (last-N-days/weeks/months) or previous periods
+	 */
+	private isValidPeriod(period: string): boolean {
+		return ['daily', 'weekly', 'monthly', 'yearly', 'all-time'].includes(period)
+			|| /^last-[1-9]\d*-(days|weeks|months)$/.test(period)
+			|| /^previous-(day|week|month|year)$/.test(period);
+	}
+
+	/**
+	 * Parse a value map such as "great=5, good=4, ok=3" or "✓=1, ½=0.5, ✗=0"
+	 */
+	private parseValueMap(value: string): Record<string, number> {
+		const valueMap: Record<string, number> = {};
+		for (const entry of value.split(',').map(e => e.trim()).filter(e => e)) {
+			const separator = entry.lastIndexOf('=');
+			const text = entry.substring(0, separator).trim();
+			const amount = entry.substring(separator + 1).trim();
+			if (separator <= 0 || !text || amount === '' || isNaN(Number(amount))) {
+				throw new Error(`Invalid valueMap entry: "${entry}". Use text=number, e.g. "great=5, good=4"`);
+			}
+			valueMap[text] = Number(amount);
+		}
+		return valueMap;
+	}
+
+	/**
+	 * Parse list syntax "[Run, Jog]" into its items (null when the value is not a list)
+	 */
+	private parseList(value: string): string[] | null {
+		if (!value.startsWith('[') || !value.endsWith(']')) return null;
+		return value.slice(1, -1).split(',')
+			.map(item => item.trim().replace(/^(["'])(.*)\1$/, '$2'))
+			.filter(item => item);
+	}
+
+	/**
+	 * Parse a goal: a number, or comma-separated milestones such as "10, 20, 30" or "bronze=10, silver=20"
+	 */
+	private parseMilestones(value: string): GoalMilestone[] {
+		const milestones = value.split(',').map(part => part.trim()).filter(part => part).map(part => {
+			const separator = part.indexOf('=');
+			const name = separator >= 0 ? part.substring(0, separator).trim() : undefined;
+			const amount = separator >= 0 ? part.substring(separator + 1).trim() : part;
+			const parsed = Number(amount);
+			if (amount === '' || isNaN(parsed)) {
+				throw new Error(`Invalid goal: "${value}"`);
+			}
+			return name ? { value: parsed, name } : { value: parsed };
+		});
+
+		return milestones.sort((a, b) => a.value - b.value);
+	}
+
+	/**
+	 * Check an aggregate method: a named method or a percentile (p0-p100, e.g. p90)
+	 */
+	private isValidAggregate(aggregate: string): boolean {
+		const methods = ['count', 'count_all', 'sum', 'average', 'median', 'stddev', 'max', 'min', 'first', 'last', 'distinct'];
+		if (methods.includes(aggregate)) return true;
+
+		const percentile = aggregate.match(/^p(\d+(?:\.\d+)?)$/);
+		return !!percentile && parseFloat(percentile[1] ?? '') <= 100;
+	}
+
 	/**
 	 * Render a helpful error message with guidance
 	 */
@@ -437,7 +769,7 @@ export default class HabitTrackerPlugin extends Plugin {
 	private getErrorGuidance(message: string): string[] | null {
 		if (message.includes('Missing required field: type')) {
 			return [
-				'Add a "type:" line with one of: progress_bar, counter, percentage, streak, line_plot',
+				'Add a "type:" line with one of: progress_bar, counter, percentage, streak, line_plot, heatmap, bar_chart, stacked_bar',
 				'The type determines how your data is visualized'
 			];
 		}
@@ -446,7 +778,8 @@ export default class HabitTrackerPlugin extends Plugin {
 				'Add a "source:" line to specify where to find your data',
 				'Use "current-file" to scan the file containing this block',
 				'Use "file:path/to/file.md" to scan a specific file',
-				'Use "folder:Daily Notes" to scan all files in a folder'
+				'Use "folder:Daily Notes" to scan all files in a folder',
+				'Use "tag:#workout", "backlinks:Project X" or "links:" to scan notes by tag or link'
 			];
 		}
 		if (message.includes('keyColumn is required')) {
@@ -458,7 +791,8 @@ export default class HabitTrackerPlugin extends Plugin {
 		if (message.includes('valueColumn is required')) {
 			return [
 				'Add "valueColumn:" with the name of the column to read values from',
-				'This is the column containing your data (e.g., "Done", "Status", "Reps")'
+				'This is the column containing your data (e.g., "Done", "Status", "Reps")',
+				'For weekly grids with one column per day, use "dayColumns:" instead'
 			];
 		}
 		if (message.includes('value is required for table mode')) {
@@ -469,6 +803,85 @@ export default class HabitTrackerPlugin extends Plugin {
 				'Use "any" to count any non-empty cell'
 			];
 		}
+		if (message.includes('dateColumn requires table mode')) {
+			return [
+				'dateColumn reads each row\'s date from a table column',
+				'Add keyColumn, valueColumn, and value to scan the table',
+				'Pattern mode uses dates from filenames instead (folder source)'
+			];
+		}
+		if (message.includes('Invalid goal:')) {
+			return [
+				'Use a number, e.g. "goal: 30" or "goal: 7.5"',
+				'Or milestones separated by commas, e.g. "goal: 10, 20, 30"',
+				'Name tiers with name=value, e.g. "goal: bronze=10, silver=20, gold=30"',
+				'Read it from a note: "goal: frontmatter:weeklyTarget" or "goal: file:Goals.md#Exercise"',
+				'Combine with + - * / and parentheses, e.g. "goal: frontmatter:dailyTarget * 7" (spaces around operators)',
+				'For a range like "7-9", use goalType: range with goalMin: 7 and goalMax: 9'
+			];
+		}
+		if (message.includes('goalType') || message.includes('goalMin')) {
+			return [
+				'goalType "at-least" (default): reach the goal',
+				'goalType "at-most": stay under the goal, e.g. cups of coffee or screen time',
+				'goalType "range": stay between goalMin and goalMax, e.g. 7 to 9 hours of sleep'
+			];
+		}
+		if (message.includes('Invalid valueMap')) {
+			return [
+				'List text=number pairs separated by commas, e.g. "great=5, good=4, ok=3, bad=1"',
+				'Symbols work too, e.g. "✓=1, ½=0.5, ✗=0"',
+				'Cells match a whole entry, ignoring case; other cells are read as numbers'
+			];
+		}
+		if (message.includes('Invalid match mode') || message.includes('regex: "')) {
+			return [
+				'contains (default): the cell contains the text, so "Run" also matches "Running"',
+				'exact: the whole cell equals the text',
+				'regex: a regular expression, e.g. "^(Run|Jog)$"',
+				'Add ci to ignore case, e.g. "keyMatch: exact ci"'
+			];
+		}
+		if (message.includes('where condition') || message.includes('where requires')) {
+			return [
+				'Write conditions as "Column operator value", e.g. "Minutes > 20" or "Status != skipped"',
+				'Operators: = != > >= < <= (numbers compare numerically, text ignores case)',
+				'Join conditions with "and" / "or"; quote values that contain those words',
+				'where filters table rows, so it needs keyColumn, valueColumn and value'
+			];
+		}
+		if (message.includes('Invalid streak')) {
+			return [
+				'streakUnit: day (default), week or month, e.g. "streakUnit: week" for weekly habits',
+				'streakThreshold: the value a unit must reach to count, e.g. "streakThreshold: 20"',
+				'streakGrace: how many missed units a streak survives, e.g. "streakGrace: 1"',
+				'streakThrough: today (default) or yesterday, so a streak isn\'t broken before today is logged'
+			];
+		}
+		if (message.includes('Invalid period')) {
+			return [
+				'Use a calendar period: daily, weekly, monthly, yearly, all-time',
+				'Or a rolling window ending today: last-7-days, last-4-weeks, last-3-months',
+				'Or the previous calendar period: previous-day, previous-week, previous-month, previous-year',
+				'For an explicit range, use "from:" and "to:" instead'
+			];
+		}
+		if (/^Invalid (aggregate|rowAggregate|fileAggregate):/.test(message)) {
+			return [
+				'Counting: count (non-zero values), count_all (every value, zeros included), distinct (different keys)',
+				'Totals and averages: sum, average, median, stddev',
+				'Extremes: max, min, or a percentile such as p90 (p0-p100)',
+				'Chronological: first, last (e.g., latest weight)',
+				'rowAggregate combines rows within a file or day, fileAggregate combines those results'
+			];
+		}
+		if (message.includes('date: "') || message.includes('later than to')) {
+			return [
+				'Dates for "from:" and "to:" must use the YYYY-MM-DD format',
+				'"from:" is the start of the range, so it must not come after "to:"',
+				'Both ends are inclusive; either one can be omitted'
+			];
+		}
 		if (message.includes('Either table mode')) {
 			return [
 				'You must use either Table mode OR Pattern mode',
@@ -491,6 +904,12 @@ valueColumn: Done
 value: "✓"
 goal: 5
 label: My Tracker`;
+		}
+		if (message.includes('dateColumn requires table mode')) {
+			return `keyColumn: Activity
+valueColumn: Minutes
+value: numeric
+dateColumn: Date`;
 		}
 		if (message.includes('keyColumn') || message.includes('valueColumn') || message.includes('value is required')) {
 			return `keyColumn: Activity
@@ -512,7 +931,7 @@ pattern: "- [x] Exercise"`;
 	/**
 	 * Validate and parse source format
 	 */
-	private validateSource(source: string): { type: 'current-file' | 'folder' | 'file'; path?: string } {
+	private validateSource(source: string): { type: 'current-file' | 'folder' | 'file' | 'tag' | 'backlinks' | 'links'; path?: string } {
 		if (source === 'current-file') {
 			return { type: 'current-file' };
 		}
@@ -530,14 +949,42 @@ pattern: "- [x] Exercise"`;
 			}
 			return { type: 'file', path };
 		}
-		throw new Error(`Invalid source format: "${source}". Use "current-file", "folder:<path>", or "file:<path>"`);
+		if (source.startsWith('tag:')) {
+			const path = source.substring(4).trim();
+			if (!path.replace(/^#/, '')) {
+				throw new Error('tag source requires a tag (e.g., "tag:#workout")');
+			}
+			return { type: 'tag', path };
+		}
+		if (source.startsWith('backlinks:')) {
+			// Empty means notes linking to the current note
+			return { type: 'backlinks', path: source.substring(10).trim() };
+		}
+		if (source.startsWith('links:')) {
+			// Empty means notes linked from the current note
+			return { type: 'links', path: source.substring(6).trim() };
+		}
+		throw new Error(`Invalid source format: "${source}". Use "current-file", "folder:<path>", "file:<path>", "tag:#<tag>", "backlinks:<note>", or "links:<note>"`);
+	}
+
+	/**
+	 * Whether a tracker reads the metadata cache: tag and link sources, goals from frontmatter,
+	 * frontmatter dates (dateSource) and the note's date (anchor: note)
+	 */
+	private usesMetadataCache(config: TrackerConfig): boolean {
+		const { source } = config;
+		return source.startsWith('tag:') || source.startsWith('backlinks:') || source.startsWith('links:')
+			|| !!config.goalExpression
+			|| !!config.dateSource?.some(s => s !== 'filename' && s !== 'mtime' && s !== 'ctime')
+			|| config.anchor === 'note';
 	}
 
 	/**
 	 * Refresh all tracker displays
 	 */
-	private async refreshAllTrackers(): Promise<void> {
+	private async refreshAllTrackers(filter?: (config: TrackerConfig) => boolean): Promise<void> {
 		for (const [el, { config, sourcePath }] of this.trackerElements.entries()) {
+			if (filter && !filter(config)) continue;
 			try {
 				// Get the file from stored source path
 				const currentFile = this.app.vault.getAbstractFileByPath(sourcePath);
@@ -2,8 +2,10 @@ import {App, PluginSettingTab, Setting} from "obsidian";
 import HabitTrackerPlugin from "./main";
 import { HabitTrackerSettings } from "./types";
 
-/** Date format example - stored as constant to avoid sentence-case lint on format specifiers */
+/** Date format examples - stored as constants to avoid sentence-case lint on format specifiers */
 const DATE_FORMAT_EXAMPLE = 'YYYY-MM-DD';
+const WEEKLY_FORMAT_EXAMPLE = 'gggg-[W]ww';
+const MONTHLY_FORMAT_EXAMPLE = 'YYYY-MM';
 
 export const DEFAULT_SETTINGS: HabitTrackerSettings = {
 	defaultPeriod: 'all-time',
@@ -31,6 +33,8 @@ export class HabitTrackerSettingTab extends PluginSettingTab {
 				.addOption('weekly', 'Weekly')
 				.addOption('monthly', 'Monthly')
 				.addOption('yearly', 'Yearly')
+				.addOption('last-7-days', 'Last 7 days')
+				.addOption('last-30-days', 'Last 30 days')
 				.addOption('all-time', 'All-time')
 				.setValue(this.plugin.settings.defaultPeriod)
 				.onChange(async (value) => {
@@ -40,7 +44,7 @@ export class HabitTrackerSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Date format')
-			.setDesc(`Date format used in your daily note filenames (e.g., ${DATE_FORMAT_EXAMPLE})`)
+			.setDesc(`Date format used in your note filenames (e.g., ${DATE_FORMAT_EXAMPLE}, ${WEEKLY_FORMAT_EXAMPLE} or ${MONTHLY_FORMAT_EXAMPLE})`)
 			.addText(text => text
 				.setPlaceholder(DATE_FORMAT_EXAMPLE)
 				.setValue(this.plugin.settings.dateFormat)
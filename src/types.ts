@@ -5,18 +5,58 @@
 /**
  * Supported tracker visualization types
  */
-export type TrackerType = 'progress_bar' | 'counter' | 'percentage' | 'streak' | 'line_plot';
+export type TrackerType = 'progress_bar' | 'counter' | 'percentage' | 'streak' | 'line_plot' | 'heatmap'
+	| 'bar_chart' | 'stacked_bar';
 
 /**
  * Time period for aggregating tracker data.
- * Only applies when source is a folder. Filters files by date extracted from filename (YYYY-MM-DD format).
+ * Applies to folder sources (date extracted from filename) and to tables with a dateColumn, using dateFormat or a built-in format.
+ * - Calendar periods: the current day, week, month or year
+ * - Rolling windows ending today: "last-7-days", "last-4-weeks", "last-3-months"
+ * - Previous calendar periods: "previous-day", "previous-week", "previous-month", "previous-year"
  */
-export type TrackerPeriod = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'all-time';
+export type TrackerPeriod = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'all-time'
+	| `last-${number}-days` | `last-${number}-weeks` | `last-${number}-months`
+	| 'previous-day' | 'previous-week' | 'previous-month' | 'previous-year';
+
+/**
+ * Unit of time a streak counts in
+ */
+export type StreakUnit = 'day' | 'week' | 'month';
 
 /**
  * Aggregation method for values
+ * - "count": non-zero values; "count_all": every value, zeros included
+ * - "median", "p90" (any percentile p0-p100), "stddev" (population standard deviation)
+ * - "first" / "last": chronologically first or last value
+ * - "distinct": number of distinct key cells (or value cells without a key column) with a value
  */
-export type AggregateMethod = 'count' | 'sum' | 'average' | 'max' | 'min';
+export type AggregateMethod = 'count' | 'count_all' | 'sum' | 'average' | 'median' | 'stddev'
+	| 'max' | 'min' | 'first' | 'last' | 'distinct' | `p${number}`;
+
+/**
+ * Direction of a goal: reach at least the goal, stay at most at the goal (a limit), or stay within goalMin-goalMax
+ */
+export type GoalType = 'at-least' | 'at-most' | 'range';
+
+/**
+ * One step of a tiered goal (e.g., bronze = 10)
+ */
+export interface GoalMilestone {
+	value: number;
+	/** Tier name, when given as name=value */
+	name?: string;
+}
+
+/**
+ * How key and text values are matched against cells
+ */
+export interface TextMatch {
+	/** "contains" (substring, default), "exact" (whole cell) or "regex" */
+	mode: 'contains' | 'exact' | 'regex';
+	/** Ignore case ("ci") */
+	ignoreCase: boolean;
+}
 
 /**
  * Layout mode for rendering multiple trackers
@@ -44,22 +84,54 @@ export interface TrackerConfig {
 	tableTag?: string;
 	/** Column containing row identifiers (required for table mode) */
 	keyColumn?: string;
-	/** Value to match in keyColumn (optional - omit to include all rows) */
-	key?: string;
+	/** Value to match in keyColumn (optional - omit to include all rows); a list (`[Run, Jog]`) matches any */
+	key?: string | string[];
+	/** How key (and keys) are matched: contains (default), exact or regex, plus "ci" to ignore case */
+	keyMatch?: TextMatch;
+	/** Several values to match in keyColumn, tracked as separate series (line plots, stacked bars) */
+	keys?: string[];
 	/** Column to read values from */
 	valueColumn?: string;
+	/**
+	 * Column containing each row's date (e.g., a single log table).
+	 * Rows sharing a date are combined into one time series point; rows without a readable date are skipped.
+	 */
+	dateColumn?: string;
+	/**
+	 * Grid mode for transposed tables (e.g., | Habit | Mon | Tue | ... |): columns holding one value per day.
+	 * Headers may be dates or weekday names; weekdays resolve to the note's week.
+	 * Use "auto" to detect every date or weekday header.
+	 */
+	dayColumns?: string[] | 'auto';
 
 	// --- Value Interpretation ---
 	/**
 	 * What values to look for:
 	 * - "numeric": match numbers (integers, decimals)
 	 * - "any": match any non-empty cell
-	 * - "<text>": match this exact text (e.g., "✓", "done", "yes")
+	 * - "<text>": match this text (e.g., "✓", "done", "yes"); a list (`[✓, x]`) matches any
+	 */
+	value?: string | string[];
+	/** How text values are matched: contains (default), exact or regex, plus "ci" to ignore case */
+	valueMatch?: TextMatch;
+	/**
+	 * Numbers for cell texts, e.g. "great=5, good=4, ok=3, bad=1" or "✓=1, ½=0.5, ✗=0".
+	 * Checked before the value type; cells match whole and ignoring case unless valueMatch is set.
+	 */
+	valueMap?: Record<string, number>;
+
+	/**
+	 * Row filter on other columns, e.g. "Category = Fitness and Minutes > 20" or "Status != skipped".
+	 * Operators: = != > >= < <=, joined with "and" / "or".
 	 */
-	value?: string;
+	where?: string;
 
 	/** How to aggregate matched values (default: "count") */
 	aggregate?: AggregateMethod;
+	/** How rows within one file (or one day, with row dates) are combined (default: aggregate) */
+	rowAggregate?: AggregateMethod;
+	/** How per-file (or per-day) values are combined into the result (default: aggregate) */
+	fileAggregate?: AggregateMethod;
 
 	// --- Pattern Mode (scanning file content, not tables) ---
 	/** Text pattern to search for in file content */
@@ -68,17 +140,86 @@ export interface TrackerConfig {
 	useRegex?: boolean;
 
 	// --- Goal ---
-	/** Static goal number */
+	/** Static goal number (the highest milestone when milestones are given) */
 	goal?: number;
+	/** Milestones in ascending order, from `goal: 10, 20, 30` or `goal: bronze=10, silver=20, gold=30` */
+	milestones?: GoalMilestone[];
+	/**
+	 * Goal computed when scanning, from `goal:` references and arithmetic:
+	 * - "frontmatter:field": a frontmatter field of the host note ("frontmatter:Goals.md#field" for another note)
+	 * - "file:Goals.md#Exercise": the goal column of the "Exercise" row in a note's tables
+	 * - numbers and references combined with + - * / and parentheses (e.g., "frontmatter:dailyTarget * 7")
+	 */
+	goalExpression?: string;
 	/** Column name to extract dynamic goal value from (table mode) */
 	goalColumn?: string;
+	/** Whether the goal is a target, a limit or a range (default: "at-least") */
+	goalType?: GoalType;
+	/** Lower bound for goalType "range" */
+	goalMin?: number;
+	/** Upper bound for goalType "range" (also the limit for "at-most" when goal is not set) */
+	goalMax?: number;
+	/** The goal is per day or per week, and is scaled to the length of the period */
+	goalPer?: 'day' | 'week';
+	/** Scale goalPer to the whole period (default) or only the days elapsed so far */
+	goalScale?: 'period' | 'elapsed';
+	/** Weekdays a per-day goal applies to (e.g., Mon, Wed, Fri); other days are not counted */
+	goalWeekdays?: string[];
 
 	// --- Time Filtering ---
 	/** 
-	 * Time period for filtering (folder source only).
-	 * Requires YYYY-MM-DD format in filenames.
+	 * Time period for filtering (folder source, or any source with dateColumn).
+	 * Requires dates in filenames or in the date column, in dateFormat or a built-in format (YYYY-MM-DD, YYYYMMDD, DD-MM-YYYY, gggg-[W]ww).
 	 */
 	period?: TrackerPeriod;
+	/**
+	 * Where each file's date comes from, tried in order until one yields a date (default: ["filename"]):
+	 * "filename", "mtime" / "ctime" (file modified / created time), or a frontmatter field name (e.g., "date", "created").
+	 */
+	dateSource?: string[];
+	/**
+	 * moment.js format of dates in filenames and date columns (default: the plugin's date format setting).
+	 * Periodic formats like "gggg-[W]ww", "YYYY-MM" and "YYYY" make each weekly/monthly/yearly note one point.
+	 */
+	dateFormat?: string;
+	/** Compare against the preceding period (e.g., last week vs this week) and show a trend delta */
+	compare?: 'previous';
+	/**
+	 * What periods and streaks are relative to (default: "now").
+	 * "note" uses the date in the host note's filename or its `date` frontmatter field,
+	 * so archived review notes keep their numbers.
+	 */
+	anchor?: 'now' | 'note';
+	/** Explicit range start (YYYY-MM-DD, inclusive). With from/to set, period is ignored. */
+	from?: string;
+	/** Explicit range end (YYYY-MM-DD, inclusive) */
+	to?: string;
+
+	// --- Streaks ---
+	/** Unit a streak counts in (default: "day") */
+	streakUnit?: StreakUnit;
+	/**
+	 * Minimum aggregated value per unit for it to count toward the streak
+	 * (e.g., 3 with aggregate "count" and streakUnit "week" = 3 times a week). Default: any value above 0.
+	 */
+	streakThreshold?: number;
+	/** Missed units allowed inside a streak before it breaks (default: 0) */
+	streakGrace?: number;
+	/**
+	 * Where the current streak must reach (default: "today").
+	 * "yesterday" keeps the streak alive until today (or this week/month) has been logged.
+	 */
+	streakThrough?: 'today' | 'yesterday';
+
+	// --- Time Series ---
+	/** Combine time series points into one per day, week or month; missing ones are filled with 0 */
+	groupBy?: StreakUnit;
+	/** Plot a running total instead of per-point values */
+	cumulative?: boolean;
+	/** Overlay a trailing moving average over this many points on line plots */
+	smoothing?: number;
+	/** Overlay a least-squares trend line on line plots */
+	trendline?: 'linear';
 
 	// --- Display ---
 	/** Label to display above the tracker */
@@ -91,14 +232,50 @@ export interface TrackerConfig {
 	gridColumns?: number;
 }
 
+/**
+ * A single point in a time series
+ */
+export interface TimeSeriesPoint {
+	date: Date;
+	value: number;
+}
+
+/**
+ * Progress toward the goal relative to how much of the period has elapsed
+ */
+export interface GoalPace {
+	/** Value expected by now at an even pace (goal × elapsed fraction of the period) */
+	expected: number;
+	/** Value reached by the end of the period at the current rate */
+	projected: number;
+	/** Expected value at each plotted date (cumulative line plots only) */
+	points?: TimeSeriesPoint[];
+}
+
+/**
+ * Time series for one configured key
+ */
+export interface TrackerSeries {
+	/** Key this series was extracted for */
+	key: string;
+	/** One point per dated file */
+	points: TimeSeriesPoint[];
+}
+
 /**
  * Result of scanning files for events
  */
 export interface TrackerData {
 	/** Total count of matched events */
 	count: number;
-	/** Goal value (if specified) */
+	/** Goal value (if specified); the upper bound for goalType "range" */
 	goal?: number;
+	/** Milestones in ascending order (when the goal is tiered) */
+	milestones?: GoalMilestone[];
+	/** Whether the goal is a target, a limit or a range */
+	goalType?: GoalType;
+	/** Lower bound for goalType "range" */
+	goalMin?: number;
 	/** Number of files scanned */
 	filesScanned: number;
 	/** Date range of scanned files */
@@ -106,12 +283,31 @@ export interface TrackerData {
 		start: Date | null;
 		end: Date | null;
 	};
+	/** Bounds of the period or from/to range (dated sources with both ends set), so calendars cover all of it */
+	periodRange?: {
+		start: Date;
+		end: Date;
+	};
 	/** Current streak (consecutive days with at least one event) */
 	streak?: number;
+	/** Longest streak within the scanned data */
+	bestStreak?: number;
+	/** Unit the streaks are counted in */
+	streakUnit?: StreakUnit;
+	/** Count for the preceding period (when compare is "previous") */
+	previous?: number;
 	/** Numeric sum (when valueType is 'numeric') */
 	numericSum?: number;
 	/** Time series data for line plots (array of {date, value} points) */
-	timeSeries?: Array<{date: Date; value: number}>;
+	timeSeries?: TimeSeriesPoint[];
+	/** Per-key time series (when `keys` is configured), aligned with timeSeries */
+	series?: TrackerSeries[];
+	/** Moving average of timeSeries (when smoothing is set) */
+	smoothed?: TimeSeriesPoint[];
+	/** Linear trend fitted to timeSeries (when trendline is set) */
+	trendline?: TimeSeriesPoint[];
+	/** Pace toward the goal (calendar periods and explicit ranges still in progress) */
+	pace?: GoalPace;
 }
 
 /**
@@ -120,6 +316,6 @@ export interface TrackerData {
 export interface HabitTrackerSettings {
 	/** Default period if not specified in tracker config */
 	defaultPeriod: TrackerPeriod;
-	/** Date format for parsing daily note titles */
+	/** Default moment.js date format for parsing note titles (per-tracker dateFormat overrides it) */
 	dateFormat: string;
 }
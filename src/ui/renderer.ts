@@ -1,4 +1,39 @@
-import { TrackerData, TrackerType } from '../types';
+import { moment } from 'obsidian';
+import { GoalMilestone, StreakUnit, TimeSeriesPoint, TrackerData, TrackerSeries, TrackerType } from '../types';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/** Streak label for each streak unit */
+const STREAK_UNIT_LABELS: Record<StreakUnit, string> = {
+	day: 'Day streak',
+	week: 'Week streak',
+	month: 'Month streak'
+};
+
+/** Number of distinct series colors defined in styles.css */
+const SERIES_COLOR_COUNT = 8;
+
+/** Share of an "at-most" limit from which a value shows as a warning */
+const LIMIT_WARNING_RATIO = 0.8;
+
+/**
+ * How a value stands against its goal, used as a CSS class (null while a target is still in progress)
+ */
+type GoalState = 'completed' | 'warning' | 'over-limit';
+
+/**
+ * SVG scaffolding shared by line and bar charts
+ */
+interface ChartFrame {
+	svg: SVGSVGElement;
+	/** Plot area group - callers append their marks and then attach it to svg */
+	g: SVGGElement;
+	margin: { top: number; right: number; bottom: number; left: number };
+	plotWidth: number;
+	plotHeight: number;
+	scaleY: (value: number) => number;
+	goalLine?: SVGLineElement;
+}
 
 /**
  * Renders tracker visualizations as DOM elements
@@ -34,6 +69,15 @@ export class TrackerRenderer {
 			case 'line_plot':
 				this.renderLinePlot(container, data);
 				break;
+			case 'heatmap':
+				this.renderHeatmap(container, data);
+				break;
+			case 'bar_chart':
+				this.renderBarChart(container, data, false);
+				break;
+			case 'stacked_bar':
+				this.renderBarChart(container, data, true);
+				break;
 		}
 
 		// Add footer with stats
@@ -46,8 +90,8 @@ export class TrackerRenderer {
 	private renderProgressBar(container: HTMLElement, data: TrackerData): void {
 		const progressContainer = container.createDiv({ cls: 'habit-progress-bar-container' });
 		
-		const percentage = data.goal ? Math.min((data.count / data.goal) * 100, 100) : 100;
-		const isCompleted = percentage >= 100;
+		const percentage = data.goal !== undefined ? Math.min(this.getGoalPercentage(data, data.count), 100) : 100;
+		const goalState = data.goal !== undefined ? this.getGoalState(data) : 'completed';
 		
 		// Progress bar background
 		const barBg = progressContainer.createDiv({ cls: 'habit-progress-bar-bg' });
@@ -55,17 +99,49 @@ export class TrackerRenderer {
 		// Progress bar fill
 		const barFill = barBg.createDiv({ cls: 'habit-progress-bar-fill' });
 		barFill.style.width = `${percentage}%`;
-		if (isCompleted) {
-			barFill.addClass('completed');
+		if (goalState) {
+			barFill.addClass(goalState);
+		}
+
+		// Tick marks for milestones before the final goal
+		if (data.milestones && data.goal) {
+			for (const milestone of data.milestones) {
+				if (milestone.value >= data.goal) continue;
+				const tick = barBg.createDiv({ cls: 'habit-progress-bar-milestone' });
+				tick.style.left = `${(milestone.value / data.goal) * 100}%`;
+				tick.setAttribute('title', this.formatMilestone(milestone));
+				if (data.count >= milestone.value) {
+					tick.addClass('reached');
+				}
+			}
+		}
+
+		// Lower bound of a range goal
+		if (data.goalType === 'range' && data.goal && data.goalMin !== undefined) {
+			const minMarker = barBg.createDiv({ cls: 'habit-progress-bar-min' });
+			minMarker.style.left = `${Math.min((data.goalMin / data.goal) * 100, 100)}%`;
+		}
+		
+		// Where an even pace would be by now
+		if (data.pace && data.goal) {
+			const paceMarker = barBg.createDiv({ cls: 'habit-progress-bar-pace' });
+			paceMarker.style.left = `${Math.min((data.pace.expected / data.goal) * 100, 100)}%`;
+			paceMarker.setAttribute('title', `Expected by now: ${this.formatNumber(data.pace.expected)}`);
 		}
 		
 		// Text overlay
 		const textOverlay = progressContainer.createDiv({ cls: 'habit-progress-text' });
-		if (data.goal) {
-			textOverlay.textContent = `${data.count} / ${data.goal}`;
+		if (data.goal !== undefined) {
+			textOverlay.textContent = `${data.count} / ${this.formatGoal(data)}`;
 		} else {
 			textOverlay.textContent = `${data.count}`;
 		}
+
+		this.renderPace(container, data);
+
+		if (data.previous !== undefined) {
+			this.renderDelta(container, data, data.count - data.previous, `${data.previous}`);
+		}
 	}
 
 	/**
@@ -77,9 +153,28 @@ export class TrackerRenderer {
 		const countEl = counterContainer.createDiv({ cls: 'habit-counter-value' });
 		countEl.textContent = data.count.toString();
 		
-		if (data.goal) {
+		if (data.goal !== undefined) {
 			const goalEl = counterContainer.createDiv({ cls: 'habit-counter-goal' });
-			goalEl.textContent = `Goal: ${data.goal}`;
+			goalEl.textContent = `${data.goalType === 'at-most' ? 'Limit' : 'Goal'}: ${this.formatGoal(data)}`;
+
+			// Next milestone to reach
+			if (data.milestones) {
+				const next = data.milestones.find(m => data.count < m.value);
+				const milestoneEl = counterContainer.createDiv({ cls: 'habit-counter-milestone' });
+				milestoneEl.textContent = next
+					? `Next: ${this.formatMilestone(next)}`
+					: 'All milestones reached';
+			}
+
+			// Limits and ranges color the count once it is off goal
+			const goalState = this.getGoalState(data);
+			if (data.goalType && data.goalType !== 'at-least' && goalState) {
+				counterContainer.addClass(`habit-goal-${goalState}`);
+			}
+		}
+
+		if (data.previous !== undefined) {
+			this.renderDelta(counterContainer, data, data.count - data.previous, `${data.previous}`);
 		}
 	}
 
@@ -89,15 +184,134 @@ export class TrackerRenderer {
 	private renderPercentage(container: HTMLElement, data: TrackerData): void {
 		const percentageContainer = container.createDiv({ cls: 'habit-percentage-container' });
 		
-		const percentage = data.goal ? Math.round((data.count / data.goal) * 100) : 0;
+		const percentage = data.goal !== undefined ? Math.round(this.getGoalPercentage(data, data.count)) : 0;
 		
 		const percentEl = percentageContainer.createDiv({ cls: 'habit-percentage-value' });
 		percentEl.textContent = `${percentage}%`;
 		
-		if (data.goal) {
+		if (data.goal !== undefined) {
 			const detailEl = percentageContainer.createDiv({ cls: 'habit-percentage-detail' });
-			detailEl.textContent = `${data.count} / ${data.goal}`;
+			detailEl.textContent = `${data.count} / ${this.formatGoal(data)}`;
+
+			const goalState = this.getGoalState(data);
+			if (data.goalType && data.goalType !== 'at-least' && goalState) {
+				percentageContainer.addClass(`habit-goal-${goalState}`);
+			}
+		}
+
+		this.renderPace(percentageContainer, data);
+
+		// Change in percentage of goal
+		if (data.previous !== undefined && data.goal !== undefined) {
+			const previousPercentage = Math.round(this.getGoalPercentage(data, data.previous));
+			this.renderDelta(percentageContainer, data, percentage - previousPercentage, `${previousPercentage}%`, '%');
+		}
+	}
+
+	/**
+	 * Render whether progress is ahead of or behind an even pace toward the goal, with the projected total
+	 */
+	private renderPace(container: HTMLElement, data: TrackerData): void {
+		if (!data.pace) return;
+
+		const { expected, projected } = data.pace;
+		const difference = Math.round((data.count - expected) * 10) / 10;
+		const paceEl = container.createDiv({ cls: 'habit-pace' });
+
+		const statusEl = paceEl.createSpan({ cls: 'habit-pace-status' });
+		if (difference > 0) {
+			paceEl.addClass('habit-pace-ahead');
+			statusEl.textContent = `Ahead by ${difference}`;
+		} else if (difference < 0) {
+			paceEl.addClass('habit-pace-behind');
+			statusEl.textContent = `Behind by ${-difference}`;
+		} else {
+			paceEl.addClass('habit-pace-on-track');
+			statusEl.textContent = 'On track';
+		}
+
+		paceEl.createSpan({ cls: 'habit-pace-projection', text: `Projected: ${this.formatNumber(projected)}` });
+		paceEl.setAttribute('title', `Expected by now: ${this.formatNumber(expected)}`);
+	}
+
+	/**
+	 * Round to one decimal place for display
+	 */
+	private formatNumber(value: number): string {
+		return (Math.round(value * 10) / 10).toString();
+	}
+
+	/**
+	 * Get how the count stands against the goal. Targets complete at the goal; limits ("at-most") warn
+	 * when close and go over; ranges complete between goalMin and the goal (goalMax).
+	 */
+	private getGoalState(data: TrackerData): GoalState | null {
+		if (data.goal === undefined) return null;
+
+		switch (data.goalType) {
+			case 'at-most':
+				if (data.count > data.goal) return 'over-limit';
+				// A zero limit ("none at all") has no warning zone
+				return data.goal > 0 && data.count >= data.goal * LIMIT_WARNING_RATIO ? 'warning' : 'completed';
+			case 'range':
+				if (data.count > data.goal) return 'over-limit';
+				return data.count >= (data.goalMin ?? 0) ? 'completed' : null;
+			default:
+				return data.count >= data.goal ? 'completed' : null;
+		}
+	}
+
+	/**
+	 * Get a count as a percentage of the goal. A zero goal is 100% once reached, and a zero
+	 * limit is full (over) as soon as anything is logged.
+	 */
+	private getGoalPercentage(data: TrackerData, count: number): number {
+		const goal = data.goal ?? 0;
+		if (goal > 0) return (count / goal) * 100;
+		return data.goalType === 'at-most' && count <= 0 ? 0 : 100;
+	}
+
+	/**
+	 * Format a milestone for display ("silver (20)", or just "20" without a name)
+	 */
+	private formatMilestone(milestone: GoalMilestone): string {
+		return milestone.name ? `${milestone.name} (${milestone.value})` : `${milestone.value}`;
+	}
+
+	/**
+	 * Format the goal for display ("7-9" for a range)
+	 */
+	private formatGoal(data: TrackerData): string {
+		if (data.goalType === 'range' && data.goalMin !== undefined) {
+			return `${data.goalMin}–${data.goal}`;
 		}
+		return `${data.goal}`;
+	}
+
+	/**
+	 * Render a trend badge comparing against the previous period (▲ +3 / ▼ -12%)
+	 */
+	private renderDelta(container: HTMLElement, data: TrackerData, delta: number, previousText: string, suffix = ''): void {
+		const rounded = Math.round(delta * 100) / 100;
+		const deltaEl = container.createDiv({ cls: 'habit-delta' });
+
+		// Going up is bad for limits
+		if (data.goalType === 'at-most') {
+			deltaEl.addClass('habit-delta-inverse');
+		}
+
+		if (rounded > 0) {
+			deltaEl.addClass('habit-delta-up');
+			deltaEl.textContent = `▲ +${rounded}${suffix}`;
+		} else if (rounded < 0) {
+			deltaEl.addClass('habit-delta-down');
+			deltaEl.textContent = `▼ ${rounded}${suffix}`;
+		} else {
+			deltaEl.addClass('habit-delta-flat');
+			deltaEl.textContent = `= 0${suffix}`;
+		}
+
+		deltaEl.setAttribute('title', `Previous period: ${previousText}`);
 	}
 
 	/**
@@ -106,8 +320,8 @@ export class TrackerRenderer {
 	private renderStreak(container: HTMLElement, data: TrackerData): void {
 		const streakContainer = container.createDiv({ cls: 'habit-streak-container' });
 		
-		// Streak only meaningful when we have date-based data (folder scanning)
-		const hasStreak = data.streak !== undefined && data.filesScanned > 1;
+		// Streak only meaningful when we have date-based data (folder scanning or a date column)
+		const hasStreak = data.streak !== undefined && (data.filesScanned > 1 || !!data.timeSeries);
 		
 		const streakEl = streakContainer.createDiv({ cls: 'habit-streak-value' });
 		if (hasStreak) {
@@ -118,14 +332,20 @@ export class TrackerRenderer {
 		
 		const labelEl = streakContainer.createDiv({ cls: 'habit-streak-label' });
 		if (hasStreak) {
-			labelEl.textContent = 'Day streak';
+			labelEl.textContent = STREAK_UNIT_LABELS[data.streakUnit || 'day'];
 		} else {
 			labelEl.textContent = data.count === 1 ? 'completed' : 'completed';
 		}
+
+		// Longest streak for comparison
+		if (hasStreak && data.bestStreak !== undefined) {
+			const bestEl = streakContainer.createDiv({ cls: 'habit-streak-best' });
+			bestEl.textContent = `Best: ${data.bestStreak}`;
+		}
 	}
 
 	/**
-	 * Render line plot showing trend over time
+	 * Render line plot showing trend over time (one line per key when `keys` is set)
 	 */
 	private renderLinePlot(container: HTMLElement, data: TrackerData): void {
 		if (!data.timeSeries || data.timeSeries.length === 0) {
@@ -134,7 +354,188 @@ export class TrackerRenderer {
 			return;
 		}
 
-		const plotContainer = container.createDiv({ cls: 'habit-line-plot-container' });
+		const timeSeries = data.timeSeries;
+		const isMultiSeries = !!data.series && data.series.length > 0;
+		const series: TrackerSeries[] = isMultiSeries && data.series
+			? data.series
+			: [{ key: '', points: timeSeries }];
+
+		// Moving average and trend line overlay the total of a single series
+		const overlays: Array<{ points: TimeSeriesPoint[]; cls: string; label: string }> = [];
+		if (!isMultiSeries && data.smoothed) {
+			overlays.push({ points: data.smoothed, cls: 'habit-line-plot-smoothed', label: 'Moving average' });
+		}
+		if (!isMultiSeries && data.trendline) {
+			overlays.push({ points: data.trendline, cls: 'habit-line-plot-trendline', label: 'Trend' });
+		}
+		if (!isMultiSeries && data.pace?.points) {
+			overlays.push({ points: data.pace.points, cls: 'habit-line-plot-pace', label: 'Even pace to goal' });
+		}
+
+		// Find max value across all series
+		const values = series.concat(overlays.map(o => ({ key: '', points: o.points })))
+			.reduce<number[]>((acc, s) => acc.concat(s.points.map(p => p.value)), []);
+		const frame = this.createChartFrame(container, 'habit-line-plot', Math.max(...values, data.goal ?? 0), data.goal);
+		const { svg, g, margin, plotWidth, scaleY } = frame;
+
+		// Limits and ranges: mark the limit line, and draw the range's lower bound
+		if (frame.goalLine && data.goalType && data.goalType !== 'at-least') {
+			frame.goalLine.classList.add('habit-line-plot-limit');
+			if (data.goalType === 'range' && data.goalMin !== undefined) {
+				const minLine = frame.goalLine.cloneNode() as SVGLineElement;
+				const minY = scaleY(data.goalMin).toString();
+				minLine.setAttribute('y1', minY);
+				minLine.setAttribute('y2', minY);
+				g.appendChild(minLine);
+			}
+		}
+		const isOverLimit = (value: number) => data.goal !== undefined && !!data.goalType && data.goalType !== 'at-least' && value > data.goal;
+		
+		// Scale function (points spaced by date, so gaps between entries stay visible)
+		const times = timeSeries.map(p => p.date.getTime());
+		const startTime = Math.min(...times);
+		const timeSpan = Math.max(...times) - startTime;
+		const scaleX = (date: Date) => timeSpan > 0
+			? margin.left + ((date.getTime() - startTime) / timeSpan) * plotWidth
+			: margin.left + plotWidth / 2;
+
+		// Overlays go underneath the data points
+		for (const overlay of overlays) {
+			const pathData = overlay.points
+				.map((point, index) => `${index === 0 ? 'M' : 'L'} ${scaleX(point.date)} ${scaleY(Math.max(point.value, 0))}`)
+				.join(' ');
+			const path = document.createElementNS(SVG_NS, 'path');
+			path.setAttribute('d', pathData);
+			path.setAttribute('class', overlay.cls);
+
+			const title = document.createElementNS(SVG_NS, 'title');
+			title.textContent = overlay.label;
+			path.appendChild(title);
+
+			g.appendChild(path);
+		}
+
+		series.forEach((s, seriesIndex) => {
+			const seriesCls = isMultiSeries ? ` habit-line-plot-series ${this.getSeriesClass(seriesIndex)}` : '';
+			const keyPrefix = s.key ? `${s.key} ` : '';
+
+			// Draw line path
+			let pathData = '';
+			s.points.forEach((point, index) => {
+				const x = scaleX(point.date);
+				const y = scaleY(point.value);
+				if (index === 0) {
+					pathData += `M ${x} ${y}`;
+				} else {
+					pathData += ` L ${x} ${y}`;
+				}
+			});
+			
+			const path = document.createElementNS(SVG_NS, 'path');
+			path.setAttribute('d', pathData);
+			path.setAttribute('class', `habit-line-plot-path${seriesCls}`);
+			g.appendChild(path);
+			
+			// Draw data points
+			s.points.forEach((point) => {
+				const x = scaleX(point.date);
+				const y = scaleY(point.value);
+				const circle = document.createElementNS(SVG_NS, 'circle');
+				circle.setAttribute('cx', x.toString());
+				circle.setAttribute('cy', y.toString());
+				circle.setAttribute('r', '4');
+				circle.setAttribute('class', `habit-line-plot-point${seriesCls}${isOverLimit(point.value) ? ' habit-line-plot-point-over' : ''}`);
+				
+				// Add tooltip
+				const title = document.createElementNS(SVG_NS, 'title');
+				title.textContent = `${keyPrefix}${point.date.toLocaleDateString()}: ${point.value}`;
+				circle.appendChild(title);
+				
+				g.appendChild(circle);
+			});
+		});
+		
+		svg.appendChild(g);
+
+		if (isMultiSeries) {
+			this.renderLegend(container, series.map(s => s.key));
+		}
+	}
+
+	/**
+	 * Render bar chart (one bar per dated file), optionally stacked by key
+	 */
+	private renderBarChart(container: HTMLElement, data: TrackerData, stacked: boolean): void {
+		if (!data.timeSeries || data.timeSeries.length === 0) {
+			const emptyEl = container.createDiv({ cls: 'habit-bar-chart-empty' });
+			emptyEl.textContent = 'No data to plot';
+			return;
+		}
+
+		// Stacked mode needs per-key series; fall back to a single series otherwise
+		const series: TrackerSeries[] = stacked && data.series && data.series.length > 0
+			? data.series
+			: [{ key: '', points: data.timeSeries }];
+		const barCount = data.timeSeries.length;
+
+		// Total height of each bar (sum of its segments)
+		const totals = data.timeSeries.map((_, index) =>
+			series.reduce((acc, s) => acc + Math.max(s.points[index]?.value ?? 0, 0), 0)
+		);
+		const frame = this.createChartFrame(container, 'habit-bar-chart', Math.max(...totals, data.goal ?? 0), data.goal);
+		const { svg, g, margin, plotWidth, scaleY } = frame;
+
+		const slotWidth = plotWidth / barCount;
+		const barWidth = Math.max(slotWidth * 0.7, 1);
+
+		for (let index = 0; index < barCount; index++) {
+			const x = margin.left + index * slotWidth + (slotWidth - barWidth) / 2;
+			let stackBase = 0;
+
+			series.forEach((s, seriesIndex) => {
+				const point = s.points[index];
+				if (!point || point.value <= 0) return;
+
+				const top = scaleY(stackBase + point.value);
+				const bottom = scaleY(stackBase);
+				stackBase += point.value;
+
+				const bar = document.createElementNS(SVG_NS, 'rect');
+				bar.setAttribute('x', x.toString());
+				bar.setAttribute('y', top.toString());
+				bar.setAttribute('width', barWidth.toString());
+				bar.setAttribute('height', Math.max(bottom - top, 0).toString());
+				bar.setAttribute('class', s.key
+					? `habit-bar-chart-bar ${this.getSeriesClass(seriesIndex)}`
+					: 'habit-bar-chart-bar');
+
+				// Add tooltip
+				const title = document.createElementNS(SVG_NS, 'title');
+				const keyPrefix = s.key ? `${s.key} ` : '';
+				title.textContent = `${keyPrefix}${point.date.toLocaleDateString()}: ${point.value}`;
+				bar.appendChild(title);
+
+				g.appendChild(bar);
+			});
+		}
+
+		// Goal line drawn on top of the bars
+		if (frame.goalLine) {
+			g.appendChild(frame.goalLine);
+		}
+
+		svg.appendChild(g);
+
+		if (series.length > 1 || series[0]?.key) {
+			this.renderLegend(container, series.map(s => s.key));
+		}
+	}
+
+	/**
+	 * Create the shared SVG frame for charts: grid lines, y-axis labels and goal line
+	 */
+	private createChartFrame(container: HTMLElement, cls: string, maxValue: number, goal?: number): ChartFrame {
+		const plotContainer = container.createDiv({ cls: `${cls}-container` });
 		
 		// SVG dimensions
 		const width = 400;
@@ -144,96 +545,188 @@ export class TrackerRenderer {
 		const plotHeight = height - margin.top - margin.bottom;
 		
 		// Create SVG using DOM
-		const svgNS = 'http://www.w3.org/2000/svg';
-		const svg = document.createElementNS(svgNS, 'svg');
-		svg.setAttribute('class', 'habit-line-plot-svg');
+		const svg = document.createElementNS(SVG_NS, 'svg');
+		svg.setAttribute('class', `${cls}-svg`);
 		svg.setAttribute('width', width.toString());
 		svg.setAttribute('height', height.toString());
 		svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+		plotContainer.appendChild(svg);
 		
-		// Find min/max values
-		const values = data.timeSeries.map(d => d.value);
-		const maxValue = Math.max(...values, data.goal || 0);
 		const minValue = 0;
-		
-		// Scale functions
-		const scaleX = (index: number) => margin.left + (index / (data.timeSeries!.length - 1)) * plotWidth;
 		const scaleY = (value: number) => margin.top + plotHeight - ((value - minValue) / (maxValue - minValue || 1)) * plotHeight;
 		
 		// Create group for plot area
-		const g = document.createElementNS(svgNS, 'g');
+		const g = document.createElementNS(SVG_NS, 'g');
 		
 		// Draw grid lines
 		for (let i = 0; i <= 5; i++) {
 			const y = margin.top + (i / 5) * plotHeight;
-			const gridLine = document.createElementNS(svgNS, 'line');
+			const gridLine = document.createElementNS(SVG_NS, 'line');
 			gridLine.setAttribute('x1', margin.left.toString());
 			gridLine.setAttribute('y1', y.toString());
 			gridLine.setAttribute('x2', (width - margin.right).toString());
 			gridLine.setAttribute('y2', y.toString());
-			gridLine.setAttribute('class', 'habit-line-plot-grid');
+			gridLine.setAttribute('class', `${cls}-grid`);
 			g.appendChild(gridLine);
 			
 			// Y-axis labels
 			const value = maxValue - (i / 5) * maxValue;
-			const label = document.createElementNS(svgNS, 'text');
+			const label = document.createElementNS(SVG_NS, 'text');
 			label.setAttribute('x', (margin.left - 10).toString());
 			label.setAttribute('y', (y + 4).toString());
-			label.setAttribute('class', 'habit-line-plot-label');
+			label.setAttribute('class', `${cls}-label`);
 			label.setAttribute('text-anchor', 'end');
 			label.textContent = Math.round(value).toString();
 			g.appendChild(label);
 		}
 		
 		// Draw goal line if exists
-		if (data.goal) {
-			const goalY = scaleY(data.goal);
-			const goalLine = document.createElementNS(svgNS, 'line');
+		let goalLine: SVGLineElement | undefined;
+		if (goal !== undefined) {
+			const goalY = scaleY(goal);
+			goalLine = document.createElementNS(SVG_NS, 'line');
 			goalLine.setAttribute('x1', margin.left.toString());
 			goalLine.setAttribute('y1', goalY.toString());
 			goalLine.setAttribute('x2', (width - margin.right).toString());
 			goalLine.setAttribute('y2', goalY.toString());
-			goalLine.setAttribute('class', 'habit-line-plot-goal');
+			goalLine.setAttribute('class', `${cls}-goal`);
 			g.appendChild(goalLine);
 		}
-		
-		// Draw line path
-		let pathData = '';
-		data.timeSeries.forEach((point, index) => {
-			const x = scaleX(index);
-			const y = scaleY(point.value);
-			if (index === 0) {
-				pathData += `M ${x} ${y}`;
+
+		return { svg, g, margin, plotWidth, plotHeight, scaleY, goalLine };
+	}
+
+	/**
+	 * Render a legend mapping series colors to keys
+	 */
+	private renderLegend(container: HTMLElement, keys: string[]): void {
+		const legend = container.createDiv({ cls: 'habit-chart-legend' });
+		keys.forEach((key, index) => {
+			const item = legend.createDiv({ cls: 'habit-chart-legend-item' });
+			item.createSpan({ cls: `habit-chart-legend-swatch ${this.getSeriesClass(index)}` });
+			item.createSpan({ text: key });
+		});
+	}
+
+	/**
+	 * CSS class carrying the color for the n-th series
+	 */
+	private getSeriesClass(index: number): string {
+		return `habit-series-${index % SERIES_COLOR_COUNT}`;
+	}
+
+	/**
+	 * Render calendar heatmap (one cell per day, one column per week)
+	 */
+	private renderHeatmap(container: HTMLElement, data: TrackerData): void {
+		if (!data.timeSeries || data.timeSeries.length === 0) {
+			const emptyEl = container.createDiv({ cls: 'habit-heatmap-empty' });
+			emptyEl.textContent = 'No data to plot';
+			return;
+		}
+
+		const heatmapContainer = container.createDiv({ cls: 'habit-heatmap-container' });
+
+		// Merge points that fall on the same day
+		const valuesByDay = new Map<string, number>();
+		for (const point of data.timeSeries) {
+			const dayKey = moment(point.date).format('YYYY-MM-DD');
+			valuesByDay.set(dayKey, (valuesByDay.get(dayKey) ?? 0) + point.value);
+		}
+
+		// Shade relative to goal, or to the largest value when there is no goal
+		const maxValue = Math.max(...Array.from(valuesByDay.values()));
+		const scale = data.goal || maxValue;
+
+		// Grid spans whole weeks over the period (e.g., the full month or year), widened to any data outside it
+		const timestamps = data.timeSeries.map(d => d.date.getTime());
+		if (data.periodRange) {
+			timestamps.push(data.periodRange.start.getTime(), data.periodRange.end.getTime());
+		}
+		const firstDay = moment(Math.min(...timestamps)).startOf('week');
+		const lastDay = moment(Math.max(...timestamps)).endOf('week').startOf('day');
+		const totalDays = lastDay.diff(firstDay, 'days') + 1;
+		const totalWeeks = Math.ceil(totalDays / 7);
+
+		// SVG dimensions
+		const cellSize = 12;
+		const cellGap = 3;
+		const margin = { top: 20, right: 10, bottom: 10, left: 35 };
+		const width = margin.left + totalWeeks * (cellSize + cellGap) + margin.right;
+		const height = margin.top + 7 * (cellSize + cellGap) + margin.bottom;
+
+		const svg = document.createElementNS(SVG_NS, 'svg');
+		svg.setAttribute('class', 'habit-heatmap-svg');
+		svg.setAttribute('width', width.toString());
+		svg.setAttribute('height', height.toString());
+		svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+		const g = document.createElementNS(SVG_NS, 'g');
+
+		// Weekday labels (every other row to avoid clutter)
+		for (let row = 1; row < 7; row += 2) {
+			const label = document.createElementNS(SVG_NS, 'text');
+			label.setAttribute('x', (margin.left - 6).toString());
+			label.setAttribute('y', (margin.top + row * (cellSize + cellGap) + cellSize - 2).toString());
+			label.setAttribute('class', 'habit-heatmap-label');
+			label.setAttribute('text-anchor', 'end');
+			label.textContent = firstDay.clone().add(row, 'days').format('ddd');
+			g.appendChild(label);
+		}
+
+		const day = firstDay.clone();
+		for (let index = 0; index < totalDays; index++) {
+			const week = Math.floor(index / 7);
+			const row = index % 7;
+			const x = margin.left + week * (cellSize + cellGap);
+			const y = margin.top + row * (cellSize + cellGap);
+
+			// Month label above the week containing the 1st of the month
+			if (day.date() === 1 || index === 0) {
+				const monthLabel = document.createElementNS(SVG_NS, 'text');
+				monthLabel.setAttribute('x', x.toString());
+				monthLabel.setAttribute('y', (margin.top - 6).toString());
+				monthLabel.setAttribute('class', 'habit-heatmap-label');
+				monthLabel.textContent = day.format('MMM');
+				g.appendChild(monthLabel);
+			}
+
+			const dayKey = day.format('YYYY-MM-DD');
+			const value = valuesByDay.get(dayKey);
+
+			const cell = document.createElementNS(SVG_NS, 'rect');
+			cell.setAttribute('x', x.toString());
+			cell.setAttribute('y', y.toString());
+			cell.setAttribute('width', cellSize.toString());
+			cell.setAttribute('height', cellSize.toString());
+			cell.setAttribute('rx', '2');
+
+			const title = document.createElementNS(SVG_NS, 'title');
+			if (value === undefined) {
+				// No note for this day
+				cell.setAttribute('class', 'habit-heatmap-cell habit-heatmap-missing');
+				title.textContent = `${day.toDate().toLocaleDateString()}: no entry`;
 			} else {
-				pathData += ` L ${x} ${y}`;
+				const level = this.getHeatmapLevel(value, scale);
+				cell.setAttribute('class', `habit-heatmap-cell habit-heatmap-level-${level}`);
+				title.textContent = `${day.toDate().toLocaleDateString()}: ${value}`;
 			}
-		});
-		
-		const path = document.createElementNS(svgNS, 'path');
-		path.setAttribute('d', pathData);
-		path.setAttribute('class', 'habit-line-plot-path');
-		g.appendChild(path);
-		
-		// Draw data points
-		data.timeSeries.forEach((point, index) => {
-			const x = scaleX(index);
-			const y = scaleY(point.value);
-			const circle = document.createElementNS(svgNS, 'circle');
-			circle.setAttribute('cx', x.toString());
-			circle.setAttribute('cy', y.toString());
-			circle.setAttribute('r', '4');
-			circle.setAttribute('class', 'habit-line-plot-point');
-			
-			// Add tooltip
-			const title = document.createElementNS(svgNS, 'title');
-			title.textContent = `${point.date.toLocaleDateString()}: ${point.value}`;
-			circle.appendChild(title);
-			
-			g.appendChild(circle);
-		});
-		
+			cell.appendChild(title);
+			g.appendChild(cell);
+
+			day.add(1, 'day');
+		}
+
 		svg.appendChild(g);
-		plotContainer.appendChild(svg);
+		heatmapContainer.appendChild(svg);
+	}
+
+	/**
+	 * Map a value to a heatmap shade level (0 = nothing logged, 4 = goal reached)
+	 */
+	private getHeatmapLevel(value: number, scale: number): number {
+		if (value <= 0 || scale <= 0) return 0;
+		return Math.min(4, Math.ceil((value / scale) * 4));
 	}
 
 	/**
@@ -244,9 +737,9 @@ export class TrackerRenderer {
 		
 		const statsItems: string[] = [];
 		
-		// Only show files scanned for folder mode (not current-file or single file)
-		const isFolderMode = source?.startsWith('folder:');
-		if (isFolderMode && data.filesScanned > 0) {
+		// Only show files scanned for multi-file sources (not current-file or single file)
+		const isMultiFile = ['folder:', 'tag:', 'backlinks:', 'links:'].some(prefix => source?.startsWith(prefix));
+		if (isMultiFile && data.filesScanned > 0) {
 			statsItems.push(`${data.filesScanned} files scanned`);
 		}
 		
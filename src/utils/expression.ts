@@ -0,0 +1,127 @@
+/**
+ * Arithmetic goal expressions, e.g. `frontmatter:dailyTarget * 7` or `(file:Goals.md#Exercise + 10) / 2`.
+ * Operands are numbers or references (`frontmatter:` / `file:`); operators next to a reference
+ * must be surrounded by spaces, since file paths and row names can contain "-".
+ */
+
+type Token =
+	| { type: 'number'; value: number }
+	| { type: 'reference'; value: string }
+	| { type: 'operator'; value: '+' | '-' | '*' | '/' }
+	| { type: 'paren'; value: '(' | ')' };
+
+/** A reference runs until an operator surrounded by spaces, a closing parenthesis or the end */
+const REFERENCE_PATTERN = /^(?:frontmatter|file):.+?(?=\s+[-+*/]\s|\s*\)|\s*$)/;
+const NUMBER_PATTERN = /^(?:\d+(?:\.\d+)?|\.\d+)/;
+
+/**
+ * Whether a goal value is an expression (references or arithmetic) rather than a number or milestone list
+ */
+export function isGoalExpression(value: string): boolean {
+	if (value.includes(',') || value.includes('=')) return false;
+	return /(?:frontmatter|file):/.test(value) || /[-+*/()]/.test(value.trim().replace(/^-/, ''));
+}
+
+/**
+ * List the references (`frontmatter:...`, `file:...`) used in an expression
+ */
+export function getExpressionReferences(expression: string): string[] {
+	return tokenize(expression)
+		.filter((token): token is Extract<Token, { type: 'reference' }> => token.type === 'reference')
+		.map(token => token.value);
+}
+
+/**
+ * Evaluate an expression, looking up each reference with `resolve`.
+ * Throws on syntax errors; a reference without a value makes the result NaN.
+ */
+export function evaluateExpression(expression: string, resolve: (reference: string) => number): number {
+	const tokens = tokenize(expression);
+	let position = 0;
+
+	const peek = (): Token | undefined => tokens[position];
+
+	const parseFactor = (): number => {
+		const token = tokens[position++];
+		if (!token) {
+			throw new Error(`Unexpected end of expression: "${expression}"`);
+		}
+		if (token.type === 'number') return token.value;
+		if (token.type === 'reference') return resolve(token.value);
+		if (token.type === 'operator' && token.value === '-') return -parseFactor();
+		if (token.type === 'paren' && token.value === '(') {
+			const value = parseSum();
+			const closing = tokens[position++];
+			if (closing?.type !== 'paren' || closing.value !== ')') {
+				throw new Error(`Missing ")" in expression: "${expression}"`);
+			}
+			return value;
+		}
+		throw new Error(`Unexpected "${token.value}" in expression: "${expression}"`);
+	};
+
+	const parseProduct = (): number => {
+		let value = parseFactor();
+		let token = peek();
+		while (token?.type === 'operator' && (token.value === '*' || token.value === '/')) {
+			position++;
+			const operand = parseFactor();
+			value = token.value === '*' ? value * operand : value / operand;
+			token = peek();
+		}
+		return value;
+	};
+
+	const parseSum = (): number => {
+		let value = parseProduct();
+		let token = peek();
+		while (token?.type === 'operator' && (token.value === '+' || token.value === '-')) {
+			position++;
+			const operand = parseProduct();
+			value = token.value === '+' ? value + operand : value - operand;
+			token = peek();
+		}
+		return value;
+	};
+
+	const result = parseSum();
+	const extra = peek();
+	if (extra) {
+		throw new Error(`Unexpected "${extra.value}" in expression: "${expression}"`);
+	}
+	return result;
+}
+
+/**
+ * Split an expression into numbers, references, operators and parentheses
+ */
+function tokenize(expression: string): Token[] {
+	const tokens: Token[] = [];
+	let rest = expression.trim();
+
+	while (rest) {
+		const reference = rest.match(REFERENCE_PATTERN);
+		const number = rest.match(NUMBER_PATTERN);
+		const char = rest.charAt(0);
+
+		if (reference) {
+			tokens.push({ type: 'reference', value: reference[0].trim() });
+			rest = rest.substring(reference[0].length);
+		} else if (number) {
+			tokens.push({ type: 'number', value: parseFloat(number[0]) });
+			rest = rest.substring(number[0].length);
+		} else if (char === '+' || char === '-' || char === '*' || char === '/') {
+			tokens.push({ type: 'operator', value: char });
+			rest = rest.substring(1);
+		} else if (char === '(' || char === ')') {
+			tokens.push({ type: 'paren', value: char });
+			rest = rest.substring(1);
+		} else {
+			throw new Error(`Unexpected "${char}" in expression: "${expression}"`);
+		}
+
+		rest = rest.trim();
+	}
+
+	return tokens;
+}
@@ -0,0 +1,184 @@
+/**
+ * Row filters for table mode, e.g. `where: Category = Fitness and Minutes > 20` or `Status != skipped`.
+ * Conditions are joined with "and" / "or" ("and" binds tighter). Values are compared as numbers
+ * when both sides are numeric, otherwise as case-insensitive text; quote values containing "and"/"or".
+ * Also matches key and value cells with keyMatch / valueMatch.
+ */
+
+import { TextMatch } from '../types';
+
+type WhereOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+/**
+ * A single column comparison
+ */
+export interface WhereCondition {
+	column: string;
+	operator: WhereOperator;
+	value: string;
+}
+
+/**
+ * Parsed where clause: any group matches when all of its conditions match
+ */
+export type WhereClause = WhereCondition[][];
+
+const CONDITION_PATTERN = /^(.+?)\s*(!=|>=|<=|=|>|<)\s*(.*)$/;
+/** "and" / "or" between conditions */
+const JOIN_PATTERN = /^\s+(and|or)\s+/i;
+
+/**
+ * Parse a where clause, throwing on conditions without a column, operator or value
+ */
+export function parseWhereClause(text: string): WhereClause {
+	const groups: WhereClause = [[]];
+
+	for (const { joiner, condition } of splitConditions(text.trim())) {
+		if (joiner === 'or') {
+			groups.push([]);
+		}
+		groups[groups.length - 1]?.push(parseCondition(condition));
+	}
+
+	return groups;
+}
+
+/**
+ * Check a table row against a where clause (columns are matched to headers case-insensitively)
+ */
+export function matchesWhereClause(clause: WhereClause, headerColumns: string[], cells: string[]): boolean {
+	return clause.some(group => group.every(condition => {
+		const index = headerColumns.findIndex(h => h.toLowerCase() === condition.column.toLowerCase());
+		if (index < 0 || index >= cells.length) return false;
+		return compare(cells[index]?.trim() ?? '', condition.operator, condition.value);
+	}));
+}
+
+/**
+ * Parse a match option such as "exact", "regex ci" or "ci" (contains, ignoring case)
+ */
+export function parseTextMatch(text: string): TextMatch {
+	const match: TextMatch = { mode: 'contains', ignoreCase: false };
+	for (const word of text.toLowerCase().split(/[\s,+]+/).filter(w => w)) {
+		if (word === 'ci') {
+			match.ignoreCase = true;
+		} else if (word === 'contains' || word === 'exact' || word === 'regex') {
+			match.mode = word;
+		} else {
+			throw new Error(`Invalid match mode: "${text}". Use contains, exact or regex, optionally with ci`);
+		}
+	}
+	return match;
+}
+
+/**
+ * Check a cell against a pattern: substring (default), whole cell or regex, optionally ignoring case
+ */
+export function matchesText(cell: string, pattern: string, match?: TextMatch): boolean {
+	const mode = match?.mode ?? 'contains';
+	const ignoreCase = match?.ignoreCase ?? false;
+
+	if (mode === 'regex') {
+		try {
+			return new RegExp(pattern, ignoreCase ? 'i' : '').test(cell);
+		} catch {
+			return false;
+		}
+	}
+
+	const a = ignoreCase ? cell.toLowerCase() : cell;
+	const b = ignoreCase ? pattern.toLowerCase() : pattern;
+	return mode === 'exact' ? a.trim() === b.trim() : a.includes(b);
+}
+
+/**
+ * Split a where clause at "and" / "or", skipping words inside single or double quotes.
+ * A quote only opens a quoted value at the start of a word, so apostrophes ("Mom's") are plain text.
+ */
+function splitConditions(text: string): Array<{ joiner?: 'and' | 'or'; condition: string }> {
+	const parts: Array<{ joiner?: 'and' | 'or'; condition: string }> = [];
+	let joiner: 'and' | 'or' | undefined;
+	let start = 0;
+	let quote: string | null = null;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text.charAt(i);
+		if (quote) {
+			if (char === quote) quote = null;
+			continue;
+		}
+		if ((char === '"' || char === "'") && (i === 0 || /[\s=<>!]/.test(text.charAt(i - 1)))) {
+			quote = char;
+			continue;
+		}
+		const join = text.substring(i).match(JOIN_PATTERN);
+		if (join) {
+			parts.push({ joiner, condition: text.substring(start, i) });
+			joiner = join[1]?.toLowerCase() as 'and' | 'or';
+			i += join[0].length - 1;
+			start = i + 1;
+		}
+	}
+
+	parts.push({ joiner, condition: text.substring(start) });
+	return parts;
+}
+
+/**
+ * Parse "Column operator value", unquoting quoted values
+ */
+function parseCondition(text: string): WhereCondition {
+	const match = text.trim().match(CONDITION_PATTERN);
+	const column = match?.[1]?.trim();
+	const operator = match?.[2] as WhereOperator | undefined;
+	let value = match?.[3]?.trim() ?? '';
+
+	if ((value.startsWith('"') && value.endsWith('"') && value.length >= 2) ||
+		(value.startsWith("'") && value.endsWith("'") && value.length >= 2)) {
+		value = value.slice(1, -1);
+	} else if (!value) {
+		throw new Error(`Invalid where condition: "${text.trim()}"`);
+	}
+
+	if (!column || !operator) {
+		throw new Error(`Invalid where condition: "${text.trim()}"`);
+	}
+
+	return { column, operator, value };
+}
+
+/**
+ * Compare a cell with a condition value, numerically when the value is a number.
+ * A cell that isn't a number (e.g. "n/a") only matches "!=" against a number.
+ */
+function compare(cell: string, operator: WhereOperator, value: string): boolean {
+	const cellNumber = parseFloat(cell);
+	const valueNumber = parseFloat(value);
+	const isNumericValue = !isNaN(valueNumber) && isFinite(Number(value));
+
+	if (isNumericValue && isNaN(cellNumber)) {
+		return operator === '!=';
+	}
+
+	if (isNumericValue) {
+		switch (operator) {
+			case '=': return cellNumber === valueNumber;
+			case '!=': return cellNumber !== valueNumber;
+			case '>': return cellNumber > valueNumber;
+			case '>=': return cellNumber >= valueNumber;
+			case '<': return cellNumber < valueNumber;
+			case '<=': return cellNumber <= valueNumber;
+		}
+	}
+
+	const a = cell.toLowerCase();
+	const b = value.toLowerCase();
+	switch (operator) {
+		case '=': return a === b;
+		case '!=': return a !== b;
+		case '>': return a > b;
+		case '>=': return a >= b;
+		case '<': return a < b;
+		case '<=': return a <= b;
+	}
+}
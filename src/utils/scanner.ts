@@ -1,24 +1,133 @@
-import { TFile, TFolder, Vault, moment } from 'obsidian';
-import { TrackerConfig, TrackerData, TrackerPeriod, AggregateMethod } from '../types';
+import { MetadataCache, TFile, TFolder, Vault, getAllTags, moment } from 'obsidian';
+import { TrackerConfig, TrackerData, TrackerType, TrackerPeriod, AggregateMethod, TimeSeriesPoint, StreakUnit, GoalPace } from '../types';
+import { evaluateExpression, getExpressionReferences } from './expression';
+import { matchesText, matchesWhereClause, parseWhereClause } from './filter';
+import { parseWeekday } from './weekday';
+
+/** Period used to find the start of each streak unit (or groupBy bucket) */
+const STREAK_UNIT_PERIODS: Record<StreakUnit, TrackerPeriod> = {
+	day: 'daily',
+	week: 'weekly',
+	month: 'monthly'
+};
+
+/** Calendar unit spanned by each calendar-aligned period */
+const PERIOD_UNITS: Partial<Record<TrackerPeriod, 'day' | 'week' | 'month' | 'year'>> = {
+	daily: 'day',
+	weekly: 'week',
+	monthly: 'month',
+	yearly: 'year'
+};
+
+/**
+ * Inclusive date bounds for a period (null = unbounded on that side)
+ */
+interface PeriodBounds {
+	start: moment.Moment | null;
+	end: moment.Moment | null;
+}
+
+/** Widgets showing the period total, where a scaled goalPer goal applies */
+const TOTAL_GOAL_TYPES: TrackerType[] = ['progress_bar', 'counter', 'percentage'];
+
+/** Filename date formats always recognized, after the configured dateFormat */
+const BUILTIN_DATE_FORMATS = ['YYYY-MM-DD', 'YYYYMMDD', 'DD-MM-YYYY', 'gggg-[W]ww'];
+
+/** Regex source for each moment.js date token */
+const DATE_TOKEN_PATTERNS: Record<string, string> = {
+	YYYY: '\\d{4}',
+	GGGG: '\\d{4}',
+	gggg: '\\d{4}',
+	YY: '\\d{2}',
+	MMMM: '[a-z\\u00C0-\\u017F]+',
+	MMM: '[a-z\\u00C0-\\u017F]+\\.?',
+	MM: '\\d{2}',
+	M: '\\d{1,2}',
+	Do: '\\d{1,2}(?:st|nd|rd|th)',
+	DD: '\\d{2}',
+	D: '\\d{1,2}',
+	WW: '\\d{2}',
+	W: '\\d{1,2}',
+	ww: '\\d{2}',
+	w: '\\d{1,2}',
+	dddd: '[a-z\\u00C0-\\u017F]+',
+	ddd: '[a-z\\u00C0-\\u017F]+\\.?',
+	Q: '[1-4]'
+};
+
+/**
+ * A date found in text, with the unit of time it stands for
+ */
+interface ParsedDate {
+	date: Date;
+	unit: 'day' | 'week' | 'month' | 'year';
+}
 
 /**
  * Result of extracting values from a table
  */
 interface TableExtractionResult {
 	values: number[];
+	/** Values grouped by matched key (only when config.keys is set) */
+	valuesByKey?: Map<string, number[]>;
+	/** Values with the row's date (only when config.dateColumn or config.dayColumns is set) */
+	datedRows: DatedRow[];
+	/** Key cell (or value cell without a key column) of each row with a value, for "distinct" */
+	labels: string[];
 	goal?: number;
 }
 
+/**
+ * Where tracker data comes from: one note, a folder, or notes found by tag or link
+ */
+type SourceType = 'current-file' | 'folder' | 'file' | 'tag' | 'backlinks' | 'links';
+
+/**
+ * A scanned file with its resolved date (null when no date source yields one)
+ */
+interface DatedFile {
+	file: TFile;
+	date: Date | null;
+}
+
+/**
+ * A single table row value with the date read from its date column
+ */
+interface DatedRow {
+	date: Date;
+	value: number;
+	/** Configured key the row matched (only when config.keys is set) */
+	key?: string;
+	/** Key or value cell text, for "distinct" (only for rows with a value) */
+	label?: string;
+}
+
+/**
+ * Aggregated value for one point in time (a file, or a day from a date column)
+ */
+interface DatedEntry {
+	/** Null for files without a date in their name */
+	date: Date | null;
+	value: number;
+	/** Aggregated value per configured key (only when config.keys is set) */
+	valuesByKey?: Map<string, number>;
+	/** Distinct row labels (table mode only), so "distinct" can be aggregated across entries */
+	labels?: string[];
+}
+
 /**
  * Scans vault files and extracts data based on tracker configuration
  */
 export class FileScanner {
-	constructor(private vault: Vault) {}
+	/** Regexes built from date formats, keyed by format */
+	private dateFormatRegexes = new Map<string, RegExp>();
+
+	constructor(private vault: Vault, private metadataCache: MetadataCache) {}
 
 	/**
 	 * Parse source string into type and optional path
 	 */
-	private parseSource(source: string): { type: 'current-file' | 'folder' | 'file'; path?: string } {
+	private parseSource(source: string): { type: SourceType; path?: string } {
 		if (source === 'current-file') {
 			return { type: 'current-file' };
 		}
@@ -28,6 +137,15 @@ export class FileScanner {
 		if (source.startsWith('file:')) {
 			return { type: 'file', path: source.substring(5).trim() };
 		}
+		if (source.startsWith('tag:')) {
+			return { type: 'tag', path: source.substring(4).trim() };
+		}
+		if (source.startsWith('backlinks:')) {
+			return { type: 'backlinks', path: source.substring(10).trim() };
+		}
+		if (source.startsWith('links:')) {
+			return { type: 'links', path: source.substring(6).trim() };
+		}
 		// Fallback - treat as folder path for backward compat
 		return { type: 'folder', path: source };
 	}
@@ -36,15 +154,74 @@ export class FileScanner {
 	 * Scan files based on configuration and return tracker data
 	 */
 	async scanFiles(config: TrackerConfig, currentFile?: TFile): Promise<TrackerData> {
+		// Goals from notes or expressions are resolved first, so they behave like a static goal
+		if (config.goalExpression) {
+			config = { ...config, goal: await this.resolveGoalExpression(config.goalExpression, currentFile) };
+		}
+
+		const now = this.getReferenceDate(config, currentFile);
+		const data = await this.scanAt(config, now, currentFile);
+
+		// Same tracker over the preceding period, for trend deltas
+		if (config.compare === 'previous' && this.usesDates(config)) {
+			const previousPeriod = this.getPreviousPeriod(config, now);
+			if (previousPeriod) {
+				const previousData = await this.scanAt(previousPeriod.config, previousPeriod.now, currentFile);
+				data.previous = previousData.count;
+			}
+		}
+
+		data.milestones = config.milestones;
+		data.goalType = config.goalType;
+		data.goalMin = config.goalMin;
+
+		// Per-day or per-week goals grow with the period; charts of per-day points keep the per-unit goal
+		const goalScale = this.getGoalScale(config, now);
+		if (goalScale !== null && this.usesTotalGoal(config)) {
+			const scale = (value: number) => Math.round(value * goalScale * 100) / 100;
+			data.goal = data.goal !== undefined ? scale(data.goal) : undefined;
+			data.goalMin = data.goalMin !== undefined ? scale(data.goalMin) : undefined;
+			data.milestones = data.milestones?.map(m => ({ ...m, value: scale(m.value) }));
+		}
+
+		if (this.usesDates(config) && this.usesTotalGoal(config)) {
+			data.pace = this.calculatePace(config, data, now);
+		}
+
+		const bounds = this.usesDates(config) ? this.getPeriodBounds(config, now) : null;
+		if (bounds?.start && bounds.end) {
+			data.periodRange = { start: bounds.start.toDate(), end: bounds.end.toDate() };
+		}
+
+		return data;
+	}
+
+	/**
+	 * Whether the goal is compared with the period total (totals and running totals) rather than each point
+	 */
+	private usesTotalGoal(config: TrackerConfig): boolean {
+		return TOTAL_GOAL_TYPES.includes(config.type) || !!config.cumulative;
+	}
+
+	/**
+	 * Scan files with periods and streaks relative to the given date
+	 */
+	private async scanAt(config: TrackerConfig, now: moment.Moment, currentFile?: TFile): Promise<TrackerData> {
 		const { type, path } = this.parseSource(config.source);
 
 		switch (type) {
 			case 'current-file':
-				return await this.scanSingleFile(config, currentFile);
+				return await this.scanSingleFile(config, now, currentFile);
 			case 'file':
-				return await this.scanSpecificFile(config, path!);
+				return await this.scanSpecificFile(config, now, path!);
 			case 'folder':
-				return await this.scanFolder(config, path!);
+				return await this.scanFileList(config, now, this.getFilesInFolder(path!));
+			case 'tag':
+				return await this.scanFileList(config, now, this.getFilesWithTag(path!));
+			case 'backlinks':
+				return await this.scanFileList(config, now, this.getBacklinks(path!, currentFile));
+			case 'links':
+				return await this.scanFileList(config, now, this.getLinkedFiles(path!, currentFile));
 			default: {
 				const exhaustiveCheck: never = type;
 				throw new Error(`Unknown source type: ${String(exhaustiveCheck)}`);
@@ -52,10 +229,119 @@ export class FileScanner {
 		}
 	}
 
+	/**
+	 * Evaluate a goal expression, reading `frontmatter:` and `file:` references from the vault.
+	 * Returns undefined (no goal) when a reference can't be resolved.
+	 */
+	private async resolveGoalExpression(expression: string, currentFile?: TFile): Promise<number | undefined> {
+		const values = new Map<string, number>();
+		for (const reference of getExpressionReferences(expression)) {
+			const value = await this.resolveGoalReference(reference, currentFile);
+			if (value === null) {
+				console.warn(`Goal reference not found: ${reference}`);
+				return undefined;
+			}
+			values.set(reference, value);
+		}
+
+		const goal = evaluateExpression(expression, reference => values.get(reference) ?? NaN);
+		if (!isFinite(goal)) return undefined;
+		if (goal <= 0) {
+			throw new Error(`Invalid goal: "${expression}" is ${goal}, not a positive number`);
+		}
+		return goal;
+	}
+
+	/**
+	 * Read one goal reference: "frontmatter:field", "frontmatter:Note.md#field" or "file:Note.md#Row"
+	 */
+	private async resolveGoalReference(reference: string, currentFile?: TFile): Promise<number | null> {
+		const separator = reference.indexOf(':');
+		const kind = reference.substring(0, separator);
+		const target = reference.substring(separator + 1).trim();
+		const hashIndex = target.lastIndexOf('#');
+		const path = hashIndex >= 0 ? target.substring(0, hashIndex).trim() : '';
+		const name = hashIndex >= 0 ? target.substring(hashIndex + 1).trim() : target;
+
+		if (kind === 'frontmatter') {
+			const file = path ? this.findNote(path, currentFile) : currentFile;
+			if (!file) return null;
+			const value: unknown = this.metadataCache.getFileCache(file)?.frontmatter?.[name];
+			const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+			return isNaN(parsed) ? null : parsed;
+		}
+
+		const file = path ? this.findNote(path, currentFile) : null;
+		if (!file || !name) return null;
+		return this.findGoalInTables(await this.vault.cachedRead(file), name);
+	}
+
+	/**
+	 * Find a note by path, or by link text relative to the current note (e.g., "Goals" for "Planning/Goals.md")
+	 */
+	private findNote(path: string, currentFile?: TFile): TFile | null {
+		const file = this.vault.getAbstractFileByPath(path);
+		if (file instanceof TFile) return file;
+		return this.metadataCache.getFirstLinkpathDest(path, currentFile?.path ?? '');
+	}
+
+	/**
+	 * Look up a row by its first cell in a note's tables and read its goal
+	 * (the column whose header contains "goal" or "target", else the second column)
+	 */
+	private findGoalInTables(content: string, rowName: string): number | null {
+		let goalColumnIndex = -1;
+
+		for (const line of content.split('\n')) {
+			if (!line.trim().startsWith('|')) {
+				goalColumnIndex = -1;
+				continue;
+			}
+
+			const cells = this.parseTableCells(line);
+			if (goalColumnIndex < 0) {
+				// Header row of a new table
+				const headerIndex = cells.findIndex(h => /goal|target/i.test(h));
+				goalColumnIndex = headerIndex > 0 ? headerIndex : 1;
+				continue;
+			}
+
+			if (cells[0]?.toLowerCase() !== rowName.toLowerCase()) continue;
+			const value = parseFloat(cells[goalColumnIndex] ?? '');
+			if (!isNaN(value)) return value;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Get the date periods and streaks are relative to: now, or the host note's date with `anchor: note`
+	 */
+	private getReferenceDate(config: TrackerConfig, currentFile?: TFile): moment.Moment {
+		if (config.anchor === 'note' && currentFile) {
+			const noteDate = this.parseDate(currentFile.basename, config.dateFormat)
+				?? this.getFrontmatterDate(currentFile, 'date', config.dateFormat);
+			if (noteDate) {
+				// End of the note's day (or week/month for periodic notes), so all of it counts as "today"
+				return moment(noteDate.date).endOf(noteDate.unit);
+			}
+		}
+		return moment();
+	}
+
+	/**
+	 * Read a date from a frontmatter field
+	 */
+	private getFrontmatterDate(file: TFile, field: string, format?: string): ParsedDate | null {
+		const value: unknown = this.metadataCache.getFileCache(file)?.frontmatter?.[field];
+		if (typeof value !== 'string' && typeof value !== 'number') return null;
+		return this.parseDate(String(value), format);
+	}
+
 	/**
 	 * Scan a specific file by path
 	 */
-	private async scanSpecificFile(config: TrackerConfig, filePath: string): Promise<TrackerData> {
+	private async scanSpecificFile(config: TrackerConfig, now: moment.Moment, filePath: string): Promise<TrackerData> {
 		const file = this.vault.getAbstractFileByPath(filePath);
 		
 		if (!file || !(file instanceof TFile)) {
@@ -63,13 +349,13 @@ export class FileScanner {
 			return this.emptyResult(config);
 		}
 
-		return await this.scanSingleFile(config, file);
+		return await this.scanSingleFile(config, now, file);
 	}
 
 	/**
 	 * Scan a single file (current file or specified file)
 	 */
-	private async scanSingleFile(config: TrackerConfig, file?: TFile): Promise<TrackerData> {
+	private async scanSingleFile(config: TrackerConfig, now: moment.Moment, file?: TFile): Promise<TrackerData> {
 		if (!file) {
 			return this.emptyResult(config);
 		}
@@ -89,8 +375,15 @@ export class FileScanner {
 		}
 
 		// Table mode: extract values from markdown tables
-		const result = this.extractFromTables(content, config);
-		const aggregatedValue = this.aggregate(result.values, config.aggregate || 'count');
+		const result = this.extractFromTables(content, config, this.getFileDate(file, config));
+
+		// Date column or day columns: each distinct row date becomes a time series point
+		if (this.usesRowDates(config)) {
+			const entries = this.groupRowsByDate(result.datedRows, config, now);
+			return this.summarizeEntries(config, entries, result.goal ?? config.goal, 1, now);
+		}
+
+		const aggregatedValue = this.aggregate(result.values, this.getRowAggregate(config), result.labels);
 
 		return {
 			count: aggregatedValue,
@@ -103,75 +396,409 @@ export class FileScanner {
 	}
 
 	/**
-	 * Scan all files in a folder
+	 * Scan a set of files (a folder, tag or links), dating each one
 	 */
-	private async scanFolder(config: TrackerConfig, folderPath: string): Promise<TrackerData> {
-		const files = this.getFilesInFolder(folderPath);
-		const filteredFiles = this.filterFilesByPeriod(files, config.period || 'all-time');
+	private async scanFileList(config: TrackerConfig, now: moment.Moment, fileList: TFile[]): Promise<TrackerData> {
+		const files = fileList.map(file => ({
+			file,
+			date: this.getFileDate(file, config)
+		}));
+		// With row dates, every file is scanned and rows are filtered by period instead
+		const filteredFiles = this.usesRowDates(config)
+			? files
+			: this.filterFilesByPeriod(files, config, now);
 		
-		const allValues: number[] = [];
 		let dynamicGoal = config.goal;
-		const dates: Date[] = [];
-		const timeSeries: Array<{date: Date; value: number}> = [];
+		const entries: DatedEntry[] = [];
+		const datedRows: DatedRow[] = [];
 
-		// Sort files by name (assuming date-based naming)
-		const sortedFiles = filteredFiles.sort((a, b) => 
-			a.basename.localeCompare(b.basename)
-		);
+		// Sort chronologically; files without a date go last, by name
+		const sortedFiles = filteredFiles.sort((a, b) => {
+			if (a.date && b.date) return a.date.getTime() - b.date.getTime();
+			if (a.date) return -1;
+			if (b.date) return 1;
+			return a.file.basename.localeCompare(b.file.basename);
+		});
 
-		for (const file of sortedFiles) {
+		for (const { file, date: fileDate } of sortedFiles) {
 			const content = await this.vault.cachedRead(file);
-			let fileValue = 0;
 
 			if (config.pattern) {
 				// Pattern mode
-				fileValue = this.countPatternMatches(content, config.pattern, config.useRegex);
+				entries.push({
+					date: fileDate,
+					value: this.countPatternMatches(content, config.pattern, config.useRegex)
+				});
+				continue;
+			}
+
+			// Table mode
+			const result = this.extractFromTables(content, config, fileDate);
+			
+			// Use goal from first file that has one
+			if (dynamicGoal === undefined && result.goal !== undefined) {
+				dynamicGoal = result.goal;
+			}
+
+			if (this.usesRowDates(config)) {
+				datedRows.push(...result.datedRows);
 			} else {
-				// Table mode
-				const result = this.extractFromTables(content, config);
-				fileValue = this.aggregate(result.values, config.aggregate || 'count');
-				
-				// Use goal from first file that has one
-				if (dynamicGoal === undefined && result.goal !== undefined) {
-					dynamicGoal = result.goal;
-				}
+				entries.push(this.createEntry(fileDate, result.values, result.valuesByKey, result.labels, config));
+			}
+		}
+
+		const allEntries = this.usesRowDates(config) ? this.groupRowsByDate(datedRows, config, now) : entries;
+		return this.summarizeEntries(config, allEntries, dynamicGoal, filteredFiles.length, now);
+	}
+
+	/**
+	 * Whether values are dated, so periods apply (multi-file sources, or rows with dates)
+	 */
+	private usesDates(config: TrackerConfig): boolean {
+		const { type } = this.parseSource(config.source);
+		return (type !== 'current-file' && type !== 'file') || this.usesRowDates(config);
+	}
+
+	/**
+	 * Whether dates come from table rows (date column or day columns) rather than filenames
+	 */
+	private usesRowDates(config: TrackerConfig): boolean {
+		return !config.pattern && !!(config.dateColumn || config.dayColumns);
+	}
+
+	/**
+	 * Aggregate raw values (and per-key values) into a single dated entry
+	 */
+	private createEntry(
+		date: Date | null,
+		values: number[],
+		valuesByKey: Map<string, number[]> | undefined,
+		labels: string[],
+		config: TrackerConfig
+	): DatedEntry {
+		const method = this.getRowAggregate(config);
+		const entry: DatedEntry = {
+			date,
+			value: this.aggregate(values, method, labels),
+			labels: Array.from(new Set(labels))
+		};
+
+		// Every configured key gets a value, so series stay aligned
+		if (config.keys) {
+			entry.valuesByKey = new Map();
+			for (const key of config.keys) {
+				entry.valuesByKey.set(key, this.aggregate(valuesByKey?.get(key) ?? [], method));
 			}
+		}
 
-			allValues.push(fileValue);
+		return entry;
+	}
 
-			// Track dates for streak calculation
-			const fileDate = this.extractDateFromFilename(file.basename);
-			if (fileValue > 0 && fileDate) {
-				dates.push(fileDate);
+	/**
+	 * Group dated rows (date column or day columns) into one entry per day, keeping only days within the period
+	 */
+	private groupRowsByDate(rows: DatedRow[], config: TrackerConfig, now: moment.Moment): DatedEntry[] {
+		const bounds = this.getPeriodBounds(config, now);
+		const rowsByDay = new Map<string, {
+			date: Date;
+			values: number[];
+			valuesByKey: Map<string, number[]>;
+			labels: string[];
+		}>();
+
+		for (const row of rows) {
+			if (bounds && !this.isWithinBounds(row.date, bounds)) continue;
+
+			const dayKey = moment(row.date).format('YYYY-MM-DD');
+			let day = rowsByDay.get(dayKey);
+			if (!day) {
+				day = { date: moment(row.date).startOf('day').toDate(), values: [], valuesByKey: new Map(), labels: [] };
+				rowsByDay.set(dayKey, day);
 			}
-			
+
+			day.values.push(row.value);
+			if (row.label) {
+				day.labels.push(row.label);
+			}
+			if (row.key) {
+				const keyValues = day.valuesByKey.get(row.key) ?? [];
+				keyValues.push(row.value);
+				day.valuesByKey.set(row.key, keyValues);
+			}
+		}
+
+		return Array.from(rowsByDay.values())
+			.sort((a, b) => a.date.getTime() - b.date.getTime())
+			.map(day => this.createEntry(day.date, day.values, day.valuesByKey, day.labels, config));
+	}
+
+	/**
+	 * Build tracker data (totals, streak, time series) from dated entries
+	 */
+	private summarizeEntries(
+		config: TrackerConfig,
+		entries: DatedEntry[],
+		goal: number | undefined,
+		filesScanned: number,
+		now: moment.Moment
+	): TrackerData {
+		const timeSeries: TimeSeriesPoint[] = [];
+		const seriesByKey = new Map<string, TimeSeriesPoint[]>();
+		for (const key of config.keys ?? []) {
+			seriesByKey.set(key, []);
+		}
+
+		for (const entry of entries) {
+			if (!entry.date) continue;
+
 			// Always add to time series for line plots
-			if (fileDate) {
-				timeSeries.push({ date: fileDate, value: fileValue });
+			timeSeries.push({ date: entry.date, value: entry.value });
+			for (const [key, points] of seriesByKey) {
+				points.push({ date: entry.date, value: entry.valuesByKey?.get(key) ?? 0 });
 			}
 		}
 
-		// Calculate streak
-		const streak = dates.length > 0 ? this.calculateStreak(dates) : 0;
+		// Calculate streaks
+		const streaks = this.calculateStreaks(entries, config, now, goal);
+
+		// Bucket and accumulate plotted points (streaks and totals use the raw entries)
+		const range = this.getTimeSeriesRange(timeSeries, config, now);
+		const plotted = this.shapeTimeSeries(timeSeries, config, range);
+		for (const [key, points] of seriesByKey) {
+			seriesByKey.set(key, this.shapeTimeSeries(points, config, range));
+		}
 
-		// Aggregate all values across files
-		const totalValue = this.aggregate(allValues, config.aggregate || 'count');
+		// Aggregate all values across entries
+		const totalValue = this.aggregate(
+			entries.map(e => e.value),
+			this.getFileAggregate(config),
+			this.collectLabels(entries)
+		);
 
-		const firstFile = sortedFiles[0];
-		const lastFile = sortedFiles[sortedFiles.length - 1];
+		const firstPoint = timeSeries[0];
+		const lastPoint = timeSeries[timeSeries.length - 1];
 
 		return {
 			count: totalValue,
-			goal: dynamicGoal,
-			filesScanned: filteredFiles.length,
+			goal,
+			filesScanned,
 			dateRange: {
-				start: firstFile ? this.extractDateFromFilename(firstFile.basename) : null,
-				end: lastFile ? this.extractDateFromFilename(lastFile.basename) : null
+				start: firstPoint ? firstPoint.date : null,
+				end: lastPoint ? lastPoint.date : null
 			},
-			streak,
+			streak: streaks.current,
+			bestStreak: streaks.best,
+			streakUnit: config.streakUnit || 'day',
 			numericSum: config.value === 'numeric' ? totalValue : undefined,
-			timeSeries: timeSeries.length > 0 ? timeSeries : undefined
+			timeSeries: plotted.length > 0 ? plotted : undefined,
+			series: plotted.length > 0 && seriesByKey.size > 0
+				? Array.from(seriesByKey, ([key, points]) => ({ key, points }))
+				: undefined,
+			smoothed: config.smoothing && config.smoothing > 1 && plotted.length > 0
+				? this.movingAverage(plotted, config.smoothing)
+				: undefined,
+			trendline: config.trendline === 'linear' && plotted.length > 1
+				? this.linearTrend(plotted)
+				: undefined
+		};
+	}
+
+	/**
+	 * Date range to zero-fill grouped points over: the period, up to the reference date,
+	 * or the first to last point when the period is unbounded
+	 */
+	private getTimeSeriesRange(
+		points: TimeSeriesPoint[],
+		config: TrackerConfig,
+		now: moment.Moment
+	): PeriodBounds | null {
+		const firstPoint = points[0];
+		const lastPoint = points[points.length - 1];
+		if (!config.groupBy || !firstPoint || !lastPoint) return null;
+
+		const bounds = this.getPeriodBounds(config, now);
+		const start = bounds?.start ?? moment(firstPoint.date);
+		let end = bounds?.end ? moment.min(bounds.end, now) : moment(lastPoint.date);
+		if (end.isBefore(start)) {
+			end = moment(lastPoint.date);
+		}
+		return { start, end };
+	}
+
+	/**
+	 * Apply groupBy (one zero-filled point per day/week/month) and cumulative mode to plotted points
+	 */
+	private shapeTimeSeries(points: TimeSeriesPoint[], config: TrackerConfig, range: PeriodBounds | null): TimeSeriesPoint[] {
+		let shaped = points;
+
+		if (config.groupBy && range?.start && range.end) {
+			const unitPeriod = STREAK_UNIT_PERIODS[config.groupBy];
+			const valuesByBucket = new Map<number, number[]>();
+			for (const point of points) {
+				const bucket = this.getStartOfPeriod(moment(point.date), unitPeriod).valueOf();
+				const bucketValues = valuesByBucket.get(bucket) ?? [];
+				bucketValues.push(point.value);
+				valuesByBucket.set(bucket, bucketValues);
+			}
+
+			shaped = [];
+			const method = this.getFileAggregate(config);
+			const cursor = this.getStartOfPeriod(range.start, unitPeriod);
+			while (!cursor.isAfter(range.end)) {
+				shaped.push({
+					date: cursor.toDate(),
+					value: this.aggregate(valuesByBucket.get(cursor.valueOf()) ?? [], method)
+				});
+				cursor.add(1, config.groupBy);
+			}
+		}
+
+		if (config.cumulative) {
+			let total = 0;
+			shaped = shaped.map(point => {
+				total += point.value;
+				return { date: point.date, value: total };
+			});
+		}
+
+		return shaped;
+	}
+
+	/**
+	 * Number of days (goalPer: day) or weeks (goalPer: week) a per-unit goal is multiplied by:
+	 * the whole period, or the part elapsed so far with goalScale "elapsed". Per-day goals only count
+	 * goalWeekdays when set. Null when the goal isn't per unit or the period is unbounded.
+	 */
+	private getGoalScale(config: TrackerConfig, now: moment.Moment): number | null {
+		if (!config.goalPer) return null;
+
+		const bounds = this.getPeriodBounds(config, now);
+		if (!bounds?.start) return null;
+
+		const start = bounds.start.clone().startOf('day');
+		let end = bounds.end ?? now;
+		if (config.goalScale === 'elapsed' && now.isBefore(end)) {
+			end = now;
+		}
+
+		if (config.goalPer === 'week') {
+			return Math.max(end.diff(start, 'days') + 1, 0) / 7;
+		}
+
+		// Scheduled weekdays (names are checked when the config is parsed)
+		const weekdays = (config.goalWeekdays ?? [])
+			.map(name => parseWeekday(name))
+			.filter((day): day is number => day !== null);
+
+		let days = 0;
+		for (const day = start.clone(); !day.isAfter(end); day.add(1, 'day')) {
+			if (weekdays.length === 0 || weekdays.includes(day.day())) {
+				days++;
+			}
+		}
+		return days;
+	}
+
+	/**
+	 * Expected value by now and projection to period end, for goals over a period that is still running.
+	 * Only for additive methods (count, sum), where progress grows with time.
+	 */
+	private calculatePace(config: TrackerConfig, data: TrackerData, now: moment.Moment): GoalPace | undefined {
+		const method = this.getFileAggregate(config);
+		const isRolling = !config.from && !config.to && /^last-/.test(config.period || '');
+		const isTarget = !config.goalType || config.goalType === 'at-least';
+		const isScaledToDate = !!config.goalPer && config.goalScale === 'elapsed';
+		if (!data.goal || !isTarget || isRolling || isScaledToDate || !['count', 'count_all', 'sum'].includes(method)) {
+			return undefined;
+		}
+
+		const bounds = this.getPeriodBounds(config, now);
+		if (!bounds?.start || !bounds.end) return undefined;
+
+		// Pace within a single day isn't useful, and finished periods have nothing left to project
+		const length = bounds.end.valueOf() - bounds.start.valueOf();
+		if (length <= moment.duration(1, 'day').asMilliseconds() || !now.isBefore(bounds.end)) return undefined;
+
+		const goal = data.goal;
+		const start = bounds.start;
+		const elapsedAt = (date: moment.Moment) =>
+			Math.min(Math.max((date.valueOf() - start.valueOf()) / length, 0), 1);
+
+		const elapsed = elapsedAt(now);
+		const pace: GoalPace = {
+			expected: goal * elapsed,
+			projected: elapsed > 0 ? data.count / elapsed : data.count
 		};
+
+		// A cumulative plot can be compared against the even-pace line at each point
+		if (config.cumulative && data.timeSeries) {
+			const bucket = config.groupBy || 'day';
+			pace.points = data.timeSeries.map(point => ({
+				date: point.date,
+				value: goal * elapsedAt(moment(point.date).endOf(bucket))
+			}));
+		}
+
+		return pace;
+	}
+
+	/**
+	 * Trailing moving average over `window` points (shorter at the start, so every point has a value)
+	 */
+	private movingAverage(points: TimeSeriesPoint[], window: number): TimeSeriesPoint[] {
+		return points.map((point, index) => {
+			const windowPoints = points.slice(Math.max(index - window + 1, 0), index + 1);
+			const total = windowPoints.reduce((acc, p) => acc + p.value, 0);
+			return { date: point.date, value: total / windowPoints.length };
+		});
+	}
+
+	/**
+	 * Least-squares line through the points, using days since the first point as x
+	 */
+	private linearTrend(points: TimeSeriesPoint[]): TimeSeriesPoint[] {
+		const firstPoint = points[0];
+		if (!firstPoint) return [];
+
+		const xs = points.map(p => moment(p.date).diff(moment(firstPoint.date), 'days', true));
+		const meanX = xs.reduce((acc, x) => acc + x, 0) / xs.length;
+		const meanY = points.reduce((acc, p) => acc + p.value, 0) / points.length;
+
+		let covariance = 0;
+		let variance = 0;
+		points.forEach((point, index) => {
+			const dx = (xs[index] ?? 0) - meanX;
+			covariance += dx * (point.value - meanY);
+			variance += dx * dx;
+		});
+		const slope = variance > 0 ? covariance / variance : 0;
+
+		return points.map((point, index) => ({
+			date: point.date,
+			value: meanY + slope * ((xs[index] ?? 0) - meanX)
+		}));
+	}
+
+	/**
+	 * Method for combining rows within a file (or a day, with row dates)
+	 */
+	private getRowAggregate(config: TrackerConfig): AggregateMethod {
+		return config.rowAggregate || config.aggregate || 'count';
+	}
+
+	/**
+	 * Method for combining per-file (or per-day) values into the result
+	 */
+	private getFileAggregate(config: TrackerConfig): AggregateMethod {
+		return config.fileAggregate || config.aggregate || 'count';
+	}
+
+	/**
+	 * Combine entry labels for "distinct" (undefined in pattern mode, where entries have none)
+	 */
+	private collectLabels(entries: DatedEntry[]): string[] | undefined {
+		if (!entries.some(e => e.labels)) return undefined;
+		return entries.reduce<string[]>((acc, e) => acc.concat(e.labels ?? []), []);
 	}
 
 	/**
@@ -188,28 +815,62 @@ export class FileScanner {
 	}
 
 	/**
-	 * Aggregate an array of values based on the specified method
+	 * Aggregate an array of values based on the specified method.
+	 * Values must be in chronological order for "first" and "last"; "distinct" counts
+	 * distinct labels when given, otherwise distinct values.
 	 */
-	private aggregate(values: number[], method: AggregateMethod): number {
+	private aggregate(values: number[], method: AggregateMethod, labels?: string[]): number {
+		if (method === 'distinct') {
+			return new Set(labels ?? values.filter(v => v !== 0).map(String)).size;
+		}
 		if (values.length === 0) return 0;
 
+		const percentile = method.match(/^p(\d+(?:\.\d+)?)$/);
+		if (percentile) {
+			return this.percentile(values, parseFloat(percentile[1] ?? '50'));
+		}
+
 		switch (method) {
 			case 'count':
 				// Count non-zero values
 				return values.filter(v => v > 0).length;
+			case 'count_all':
+				return values.length;
 			case 'sum':
 				return values.reduce((acc, v) => acc + v, 0);
 			case 'average':
 				return values.reduce((acc, v) => acc + v, 0) / values.length;
+			case 'median':
+				return this.percentile(values, 50);
+			case 'stddev': {
+				const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+				const variance = values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length;
+				return Math.sqrt(variance);
+			}
 			case 'max':
 				return Math.max(...values);
 			case 'min':
 				return Math.min(...values);
+			case 'first':
+				return values[0] ?? 0;
+			case 'last':
+				return values[values.length - 1] ?? 0;
 			default:
 				return values.reduce((acc, v) => acc + v, 0);
 		}
 	}
 
+	/**
+	 * Percentile (0-100) with linear interpolation between closest ranks
+	 */
+	private percentile(values: number[], p: number): number {
+		const sorted = [...values].sort((a, b) => a - b);
+		const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+		const lower = sorted[Math.floor(rank)] ?? 0;
+		const upper = sorted[Math.ceil(rank)] ?? lower;
+		return lower + (upper - lower) * (rank - Math.floor(rank));
+	}
+
 	/**
 	 * Count pattern matches in content
 	 */
@@ -233,17 +894,39 @@ export class FileScanner {
 	/**
 	 * Extract values from markdown tables based on configuration
 	 */
-	private extractFromTables(content: string, config: TrackerConfig): TableExtractionResult {
+	private extractFromTables(content: string, config: TrackerConfig, noteDate: Date | null = null): TableExtractionResult {
 		const lines = content.split('\n');
 		const values: number[] = [];
+		const valuesByKey = config.keys ? new Map<string, number[]>() : undefined;
+		const datedRows: DatedRow[] = [];
+		const labels: string[] = [];
+		const whereClause = config.where ? parseWhereClause(config.where) : null;
 		let goal: number | undefined;
 
+		const addValue = (value: number, matchedKey: string | undefined, date: Date | null, label: string) => {
+			values.push(value);
+			const rowLabel = value !== 0 && label ? label : undefined;
+			if (rowLabel) {
+				labels.push(rowLabel);
+			}
+			if (valuesByKey && matchedKey) {
+				const keyValues = valuesByKey.get(matchedKey) ?? [];
+				keyValues.push(value);
+				valuesByKey.set(matchedKey, keyValues);
+			}
+			if (date) {
+				datedRows.push({ date, value, key: matchedKey, label: rowLabel });
+			}
+		};
+
 		let inTable = false;
 		let skippingTable = false;
 		let headerColumns: string[] = [];
 		let keyColumnIndex = -1;
 		let valueColumnIndex = -1;
 		let goalColumnIndex = -1;
+		let dateColumnIndex = -1;
+		let dayColumns: Array<{ index: number; date: Date }> = [];
 		const recentLines: string[] = [];
 		const lookbackLines = 5;
 
@@ -264,6 +947,8 @@ export class FileScanner {
 					keyColumnIndex = -1;
 					valueColumnIndex = -1;
 					goalColumnIndex = -1;
+					dateColumnIndex = -1;
+					dayColumns = [];
 
 					// Check for table-tag filter
 					if (config.tableTag) {
@@ -299,6 +984,14 @@ export class FileScanner {
 							h.toLowerCase() === config.goalColumn?.toLowerCase()
 						);
 					}
+					if (config.dateColumn) {
+						dateColumnIndex = headerColumns.findIndex(h => 
+							h.toLowerCase() === config.dateColumn?.toLowerCase()
+						);
+					}
+					if (config.dayColumns) {
+						dayColumns = this.resolveDayColumns(headerColumns, config, noteDate);
+					}
 
 					inTable = true;
 					continue;
@@ -311,18 +1004,47 @@ export class FileScanner {
 				const cells = this.parseTableCells(line);
 
 				// Check if row matches key filter (if specified)
-				if (config.key) {
+				let matchedKey: string | undefined;
+				if (config.keys && config.keys.length > 0) {
+					if (keyColumnIndex < 0 || keyColumnIndex >= cells.length) continue;
+					const keyCell = cells[keyColumnIndex];
+					matchedKey = config.keys.find(k => matchesText(keyCell ?? '', k, config.keyMatch));
+					if (!matchedKey) continue;
+				} else if (config.key) {
 					if (keyColumnIndex < 0 || keyColumnIndex >= cells.length) continue;
 					const keyCell = cells[keyColumnIndex];
-					if (!keyCell || !keyCell.includes(config.key)) continue;
+					const patterns = ([] as string[]).concat(config.key);
+					if (!keyCell || !patterns.some(k => matchesText(keyCell, k, config.keyMatch))) continue;
+				}
+
+				// Rows filtered out by the where clause
+				if (whereClause && !matchesWhereClause(whereClause, headerColumns, cells)) continue;
+
+				// Rows without a readable date are skipped when a date column is configured
+				let rowDate: Date | null = null;
+				if (config.dateColumn) {
+					if (dateColumnIndex < 0 || dateColumnIndex >= cells.length) continue;
+					rowDate = this.extractDateFromFilename(cells[dateColumnIndex] || '', config.dateFormat);
+					if (!rowDate) continue;
 				}
 
-				// Extract value from value column
-				if (valueColumnIndex >= 0 && valueColumnIndex < cells.length) {
+				const keyLabel = cells[keyColumnIndex]?.trim() || '';
+
+				if (config.dayColumns) {
+					// Grid mode: one value per day column
+					for (const dayColumn of dayColumns) {
+						const cellValue = cells[dayColumn.index]?.trim() || '';
+						const extractedValue = this.extractValue(cellValue, config);
+						if (extractedValue !== null) {
+							addValue(extractedValue, matchedKey, dayColumn.date, keyLabel);
+						}
+					}
+				} else if (valueColumnIndex >= 0 && valueColumnIndex < cells.length) {
+					// Extract value from value column
 					const cellValue = cells[valueColumnIndex]?.trim() || '';
-					const extractedValue = this.extractValue(cellValue, config.value || 'any');
+					const extractedValue = this.extractValue(cellValue, config);
 					if (extractedValue !== null) {
-						values.push(extractedValue);
+						addValue(extractedValue, matchedKey, rowDate, keyColumnIndex >= 0 ? keyLabel : cellValue);
 					}
 				}
 
@@ -344,15 +1066,73 @@ export class FileScanner {
 			}
 		}
 
-		return { values, goal };
+		return { values, valuesByKey, datedRows, labels, goal };
+	}
+
+	/**
+	 * Resolve grid-mode day columns to dates.
+	 * Headers can be dates (in dateFormat or a built-in format) or weekday names. The first weekday resolves to
+	 * its latest occurrence on or before the note's date (today when the note has no date in its name); later
+	 * ones follow in column order, so the seven columns always contain the note's date, whatever the locale's
+	 * first day of the week.
+	 */
+	private resolveDayColumns(
+		headerColumns: string[],
+		config: TrackerConfig,
+		noteDate: Date | null
+	): Array<{ index: number; date: Date }> {
+		const reference = moment(noteDate ?? undefined).startOf('day');
+		const resolved: Array<{ index: number; date: Date }> = [];
+		let previousDay: moment.Moment | null = null;
+
+		headerColumns.forEach((header, index) => {
+			const isKeyColumn = header.toLowerCase() === config.keyColumn?.toLowerCase();
+			if (isKeyColumn) return;
+
+			if (config.dayColumns !== 'auto') {
+				const isListed = config.dayColumns?.some(c => c.toLowerCase() === header.toLowerCase());
+				if (!isListed) return;
+			}
+
+			const headerDate = this.extractDateFromFilename(header, config.dateFormat);
+			if (headerDate) {
+				resolved.push({ index, date: headerDate });
+				return;
+			}
+
+			const weekday = parseWeekday(header);
+			if (weekday !== null) {
+				const day = previousDay
+					? previousDay.clone().add((weekday - previousDay.day() + 7) % 7, 'days')
+					: reference.clone().subtract((reference.day() - weekday + 7) % 7, 'days');
+				resolved.push({ index, date: day.toDate() });
+				previousDay = day;
+			}
+		});
+
+		return resolved;
 	}
 
 	/**
 	 * Extract a value from a cell based on the value type
 	 */
-	private extractValue(cellValue: string, valueType: string): number | null {
+	private extractValue(cellValue: string, config: TrackerConfig): number | null {
 		if (!cellValue) return null;
 
+		// Mapped texts (ratings, symbols) take precedence over the value type
+		if (config.valueMap) {
+			const match = config.valueMatch ?? { mode: 'exact', ignoreCase: true };
+			for (const [text, value] of Object.entries(config.valueMap)) {
+				if (matchesText(cellValue, text, match)) return value;
+			}
+		}
+
+		const valueType = config.value || 'any';
+		if (Array.isArray(valueType)) {
+			// List of texts - any of them counts
+			return valueType.some(v => matchesText(cellValue, v, config.valueMatch)) ? 1 : null;
+		}
+
 		switch (valueType) {
 			case 'numeric': {
 				// Look for numeric values, be resilient to non-numeric content
@@ -369,8 +1149,8 @@ export class FileScanner {
 				return cellValue.length > 0 ? 1 : null;
 
 			default:
-				// Exact text match - return 1 if matches, null otherwise
-				if (cellValue.includes(valueType)) {
+				// Text match (valueMatch mode) - return 1 if matches, null otherwise
+				if (matchesText(cellValue, valueType, config.valueMatch)) {
 					return 1;
 				}
 				return null;
@@ -414,24 +1194,201 @@ export class FileScanner {
 	}
 
 	/**
-	 * Filter files based on time period (requires YYYY-MM-DD in filename)
+	 * Get all markdown files carrying a tag, in the body or frontmatter.
+	 * Matches ignore case and include nested tags ("#workout" also matches "#workout/run").
 	 */
-	private filterFilesByPeriod(files: TFile[], period: TrackerPeriod): TFile[] {
-		if (period === 'all-time') {
-			return files;
+	private getFilesWithTag(tag: string): TFile[] {
+		const wanted = this.normalizeTag(tag);
+		if (!wanted) return [];
+
+		return this.vault.getMarkdownFiles().filter(file => {
+			const cache = this.metadataCache.getFileCache(file);
+			const tags = cache ? getAllTags(cache) ?? [] : [];
+			return tags.some(t => {
+				const normalized = this.normalizeTag(t);
+				return normalized === wanted || normalized.startsWith(`${wanted}/`);
+			});
+		});
+	}
+
+	/**
+	 * Lowercase a tag and drop its leading "#"
+	 */
+	private normalizeTag(tag: string): string {
+		return tag.trim().replace(/^#/, '').toLowerCase();
+	}
+
+	/**
+	 * Get all markdown files linking to a note (by path or link text; the current note when empty)
+	 */
+	private getBacklinks(target: string, currentFile?: TFile): TFile[] {
+		const targetFile = target ? this.findNote(target, currentFile) : currentFile;
+		if (!targetFile) return [];
+
+		const files: TFile[] = [];
+		for (const [sourcePath, links] of Object.entries(this.metadataCache.resolvedLinks)) {
+			if (sourcePath === targetFile.path || !links[targetFile.path]) continue;
+			const file = this.vault.getAbstractFileByPath(sourcePath);
+			if (file instanceof TFile && file.extension === 'md') {
+				files.push(file);
+			}
 		}
+		return files;
+	}
+
+	/**
+	 * Get all markdown files linked from a note (by path or link text; the current note when empty)
+	 */
+	private getLinkedFiles(source: string, currentFile?: TFile): TFile[] {
+		const sourceFile = source ? this.findNote(source, currentFile) : currentFile;
+		if (!sourceFile) return [];
 
-		const now = moment();
-		const startOfPeriod = this.getStartOfPeriod(now, period);
+		const links = this.metadataCache.resolvedLinks[sourceFile.path] ?? {};
+		const files: TFile[] = [];
+		for (const linkPath of Object.keys(links)) {
+			const file = this.vault.getAbstractFileByPath(linkPath);
+			if (file instanceof TFile && file.extension === 'md' && file.path !== sourceFile.path) {
+				files.push(file);
+			}
+		}
+		return files;
+	}
 
-		return files.filter(file => {
-			const fileDate = this.extractDateFromFilename(file.basename);
-			// If file has no date in filename, exclude it from time-based filtering
-			if (!fileDate) return false;
-			return moment(fileDate).isSameOrAfter(startOfPeriod);
+	/**
+	 * Filter files based on time period or from/to range (requires a file date, see getFileDate)
+	 */
+	private filterFilesByPeriod(files: DatedFile[], config: TrackerConfig, now: moment.Moment): DatedFile[] {
+		const bounds = this.getPeriodBounds(config, now);
+		if (!bounds) {
+			return files;
+		}
+
+		return files.filter(({ date }) => {
+			// If file has no date, exclude it from time-based filtering
+			if (!date) return false;
+			return this.isWithinBounds(date, bounds);
 		});
 	}
 
+	/**
+	 * Get a file's date from the configured date sources, tried in order (default: filename).
+	 * Sources: "filename", "mtime" / "ctime" (file modified / created time), or a frontmatter field name.
+	 */
+	private getFileDate(file: TFile, config: TrackerConfig): Date | null {
+		for (const source of config.dateSource ?? ['filename']) {
+			let date: Date | null;
+			switch (source) {
+				case 'filename':
+					date = this.extractDateFromFilename(file.basename, config.dateFormat);
+					break;
+				case 'mtime':
+					date = new Date(file.stat.mtime);
+					break;
+				case 'ctime':
+					date = new Date(file.stat.ctime);
+					break;
+				default:
+					date = this.getFrontmatterDate(file, source, config.dateFormat)?.date ?? null;
+			}
+			if (date) return date;
+		}
+		return null;
+	}
+
+	/**
+	 * Get the date bounds for the configured period, or null when nothing should be filtered.
+	 * Explicit from/to dates take precedence over period.
+	 */
+	private getPeriodBounds(config: TrackerConfig, now: moment.Moment): PeriodBounds | null {
+		if (config.from || config.to) {
+			return {
+				start: config.from ? moment(config.from, 'YYYY-MM-DD').startOf('day') : null,
+				end: config.to ? moment(config.to, 'YYYY-MM-DD').endOf('day') : null
+			};
+		}
+
+		const period = config.period || 'all-time';
+		if (period === 'all-time') {
+			return null;
+		}
+
+		// Rolling windows ending today (e.g., last-7-days)
+		const rolling = period.match(/^last-(\d+)-(days|weeks|months)$/);
+		if (rolling) {
+			const amount = parseInt(rolling[1] ?? '1', 10);
+			const unit = rolling[2] as 'days' | 'weeks' | 'months';
+			return {
+				start: now.clone().startOf('day').subtract(amount, unit).add(1, 'day'),
+				end: now.clone().endOf('day')
+			};
+		}
+
+		// Previous calendar period (e.g., previous-week)
+		const previous = period.match(/^previous-(day|week|month|year)$/);
+		if (previous) {
+			const unit = previous[1] as 'day' | 'week' | 'month' | 'year';
+			const shifted = now.clone().subtract(1, unit);
+			return {
+				start: shifted.clone().startOf(unit),
+				end: shifted.clone().endOf(unit)
+			};
+		}
+
+		// Current calendar period
+		const start = this.getStartOfPeriod(now, period);
+		return {
+			start,
+			end: start.clone().endOf(PERIOD_UNITS[period] ?? 'day')
+		};
+	}
+
+	/**
+	 * Get the config and reference date covering the period just before the configured one,
+	 * or null when there is no previous period (all-time, open-ended ranges)
+	 */
+	private getPreviousPeriod(
+		config: TrackerConfig,
+		now: moment.Moment
+	): { config: TrackerConfig; now: moment.Moment } | null {
+		const previousConfig: TrackerConfig = { ...config, compare: undefined };
+
+		// Explicit range: the same number of days right before it
+		if (config.from || config.to) {
+			if (!config.from || !config.to) return null;
+			const from = moment(config.from, 'YYYY-MM-DD');
+			const length = moment(config.to, 'YYYY-MM-DD').diff(from, 'days') + 1;
+			previousConfig.from = from.clone().subtract(length, 'days').format('YYYY-MM-DD');
+			previousConfig.to = from.clone().subtract(1, 'day').format('YYYY-MM-DD');
+			return { config: previousConfig, now };
+		}
+
+		const period = config.period || 'all-time';
+
+		// Rolling window: the window ending where this one starts
+		const rolling = period.match(/^last-(\d+)-(days|weeks|months)$/);
+		if (rolling) {
+			const amount = parseInt(rolling[1] ?? '1', 10);
+			const unit = rolling[2] as 'days' | 'weeks' | 'months';
+			return { config: previousConfig, now: now.clone().subtract(amount, unit) };
+		}
+
+		// Calendar or previous-* period: shift the reference date back one unit
+		const previous = period.match(/^previous-(day|week|month|year)$/);
+		const unit = previous ? previous[1] as 'day' | 'week' | 'month' | 'year' : PERIOD_UNITS[period];
+		if (!unit) return null;
+		return { config: previousConfig, now: now.clone().subtract(1, unit) };
+	}
+
+	/**
+	 * Check whether a date falls within period bounds (inclusive)
+	 */
+	private isWithinBounds(date: Date, bounds: PeriodBounds): boolean {
+		const day = moment(date);
+		if (bounds.start && day.isBefore(bounds.start)) return false;
+		if (bounds.end && day.isAfter(bounds.end)) return false;
+		return true;
+	}
+
 	/**
 	 * Get the start date for a given period
 	 */
@@ -451,23 +1408,30 @@ export class FileScanner {
 	}
 
 	/**
-	 * Extract date from filename (supports YYYY-MM-DD format)
+	 * Extract date from filename or table cell text.
+	 * Tries the configured date format first, then the built-in formats (YYYY-MM-DD, YYYYMMDD, DD-MM-YYYY, gggg-[W]ww).
 	 */
-	private extractDateFromFilename(filename: string): Date | null {
-		const patterns = [
-			/(\d{4}-\d{2}-\d{2})/,  // 2024-01-15
-			/(\d{4}\d{2}\d{2})/,     // 20240115
-			/(\d{2}-\d{2}-\d{4})/,   // 15-01-2024
-		];
+	private extractDateFromFilename(filename: string, format?: string): Date | null {
+		return this.parseDate(filename, format)?.date ?? null;
+	}
 
-		for (const pattern of patterns) {
-			const match = filename.match(pattern);
-			if (match) {
-				const dateStr = match[1];
-				const parsed = moment(dateStr, ['YYYY-MM-DD', 'YYYYMMDD', 'DD-MM-YYYY'], true);
-				if (parsed.isValid()) {
-					return parsed.toDate();
-				}
+	/**
+	 * Find a date in text, along with the unit of time it stands for
+	 * (a weekly note "2024-W05" covers a week, a monthly note "2024-01" a month)
+	 */
+	private parseDate(text: string, format?: string): ParsedDate | null {
+		const formats = format && !BUILTIN_DATE_FORMATS.includes(format)
+			? [format, ...BUILTIN_DATE_FORMATS]
+			: BUILTIN_DATE_FORMATS;
+
+		for (const dateFormat of formats) {
+			const match = text.match(this.getDateFormatRegex(dateFormat));
+			const dateStr = match?.[1];
+			if (!dateStr) continue;
+
+			const parsed = moment(dateStr, dateFormat, true);
+			if (parsed.isValid()) {
+				return { date: parsed.toDate(), unit: this.getDateFormatUnit(dateFormat) };
 			}
 		}
 
@@ -475,35 +1439,120 @@ export class FileScanner {
 	}
 
 	/**
-	 * Calculate current streak (consecutive days with events)
+	 * Build (and cache) a regex that finds text in the given moment.js format, not surrounded by other digits
 	 */
-	private calculateStreak(dates: Date[]): number {
-		if (dates.length === 0) return 0;
+	private getDateFormatRegex(format: string): RegExp {
+		const cached = this.dateFormatRegexes.get(format);
+		if (cached) return cached;
 
-		// Sort dates in descending order
-		const sortedDates = dates
-			.map(d => moment(d).startOf('day'))
-			.sort((a, b) => b.valueOf() - a.valueOf());
+		const tokens = format.match(/\[[^\]]*\]|YYYY|GGGG|gggg|YY|MMMM|MMM|MM|M|Do|DD|D|WW|W|ww|w|dddd|ddd|Q|./g) ?? [];
+		const pattern = tokens.map(token => {
+			if (token.startsWith('[') && token.endsWith(']')) {
+				return this.escapeRegex(token.slice(1, -1));
+			}
+			return DATE_TOKEN_PATTERNS[token] ?? this.escapeRegex(token);
+		}).join('');
 
-		// Remove duplicates
-		const uniqueDates = sortedDates.filter((date, index, array) => 
-			index === 0 || !date.isSame(array[index - 1], 'day')
-		);
+		const regex = new RegExp(`(?:^|\\D)(${pattern})(?!\\d)`, 'i');
+		this.dateFormatRegexes.set(format, regex);
+		return regex;
+	}
 
-		let streak = 0;
-		const today = moment().startOf('day');
-		const checkDate = today.clone();
+	/**
+	 * Smallest unit of time a date format distinguishes
+	 */
+	private getDateFormatUnit(format: string): ParsedDate['unit'] {
+		// Ignore bracketed literals like [W]
+		const tokens = format.replace(/\[[^\]]*\]/g, '');
+		if (/D|d/.test(tokens)) return 'day';
+		if (/W|w/.test(tokens)) return 'week';
+		if (/M|Q/.test(tokens)) return 'month';
+		return 'year';
+	}
 
-		// Count backwards from today
-		for (const date of uniqueDates) {
-			if (date.isSame(checkDate, 'day')) {
-				streak++;
-				checkDate.subtract(1, 'day');
-			} else if (date.isBefore(checkDate, 'day')) {
-				break;
-			}
+	/**
+	 * Escape special regex characters in literal text
+	 */
+	private escapeRegex(text: string): string {
+		return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	}
+
+	/**
+	 * Whether a unit's value counts toward the streak. Targets need a value above 0 (or `streakThreshold`);
+	 * limits ("at-most") need a value no higher than `streakThreshold` or the goal (static, or from goalColumn);
+	 * ranges need goalMin-goalMax.
+	 */
+	private meetsStreakGoal(value: number, config: TrackerConfig, goal: number | undefined): boolean {
+		if (config.goalType === 'range' && config.goalMin !== undefined && config.goalMax !== undefined) {
+			return value >= config.goalMin && value <= config.goalMax;
+		}
+
+		const limit = config.streakThreshold ?? goal;
+		if (config.goalType === 'at-most' && limit !== undefined) {
+			return value <= limit;
+		}
+
+		return config.streakThreshold !== undefined ? value >= config.streakThreshold : value > 0;
+	}
+
+	/**
+	 * Calculate current and longest streaks: consecutive days, weeks or months (`streakUnit`)
+	 * whose aggregated value is above zero, or at least `streakThreshold` when set.
+	 * Gaps of up to `streakGrace` missed units do not break a streak; missed units are not counted.
+	 */
+	private calculateStreaks(
+		entries: DatedEntry[],
+		config: TrackerConfig,
+		now: moment.Moment,
+		goal: number | undefined
+	): { current: number; best: number } {
+		const unit = config.streakUnit || 'day';
+		const unitPeriod = STREAK_UNIT_PERIODS[unit];
+		const currentUnit = this.getStartOfPeriod(now, unitPeriod);
+		const grace = Math.max(config.streakGrace ?? 0, 0);
+
+		// Group entries into units (undated entries and future dates are ignored)
+		const entriesByUnit = new Map<number, DatedEntry[]>();
+		for (const entry of entries) {
+			if (!entry.date) continue;
+			const unitStart = this.getStartOfPeriod(moment(entry.date), unitPeriod);
+			if (unitStart.isAfter(currentUnit)) continue;
+			const unitEntries = entriesByUnit.get(unitStart.valueOf()) ?? [];
+			unitEntries.push(entry);
+			entriesByUnit.set(unitStart.valueOf(), unitEntries);
 		}
 
-		return streak;
+		// Keep units whose aggregated value meets the threshold (or respects the limit), in ascending order
+		const method = this.getFileAggregate(config);
+		const activeUnits = Array.from(entriesByUnit)
+			.filter(([, unitEntries]) => {
+				const value = this.aggregate(unitEntries.map(e => e.value), method, this.collectLabels(unitEntries));
+				return this.meetsStreakGoal(value, config, goal);
+			})
+			.map(([start]) => moment(start))
+			.sort((a, b) => a.valueOf() - b.valueOf());
+
+		const lastUnit = activeUnits[activeUnits.length - 1];
+		if (!lastUnit) return { current: 0, best: 0 };
+
+		// Walk forward, extending the run while gaps stay within the grace allowance
+		let run = 0;
+		let best = 0;
+		let previous: moment.Moment | undefined;
+		for (const unitStart of activeUnits) {
+			const missed = previous ? unitStart.diff(previous, unit) - 1 : 0;
+			run = missed <= grace ? run + 1 : 1;
+			best = Math.max(best, run);
+			previous = unitStart;
+		}
+
+		// The final run is current if it reaches this unit (or the previous one while this one is still pending)
+		const anchor = config.streakThrough === 'yesterday' && !lastUnit.isSame(currentUnit)
+			? currentUnit.clone().subtract(1, unit)
+			: currentUnit;
+		const missedSinceLast = anchor.diff(lastUnit, unit);
+		const current = missedSinceLast <= grace ? run : 0;
+
+		return { current, best };
 	}
 }
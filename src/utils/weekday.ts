@@ -0,0 +1,27 @@
+/**
+ * Weekday names for grid headers (`dayColumns`) and scheduled goal days (`goalWeekdays`).
+ * Locale names are accepted alongside English ones, in full, short or min form.
+ */
+
+import { moment } from 'obsidian';
+
+/** English weekday names (Sunday first), accepted regardless of locale */
+const ENGLISH_WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Parse a weekday name (locale or English; full, short or min form) into 0 = Sunday ... 6 = Saturday
+ */
+export function parseWeekday(text: string): number | null {
+	const name = text.trim().toLowerCase().replace(/\.$/, '');
+	if (!name) return null;
+
+	const nameLists = [
+		moment.weekdays(), moment.weekdaysShort(), moment.weekdaysMin(),
+		ENGLISH_WEEKDAYS, ENGLISH_WEEKDAYS.map(d => d.substring(0, 3))
+	];
+	for (const list of nameLists) {
+		const index = list.findIndex(d => d.toLowerCase() === name);
+		if (index >= 0) return index;
+	}
+	return null;
+}
@@ -5,24 +5,25 @@
  */
 
 import { describe, it, expect } from '@jest/globals';
+import { evaluateExpression, getExpressionReferences, isGoalExpression } from '../src/utils/expression';
 
 /**
  * Mirrors the parseBlockAndTrackers logic from main.ts
  */
 function parseBlockAndTrackers(source: string): { 
-	blockConfig: { layout?: string; gridColumns?: number; source?: string; tableTag?: string }; 
+	blockConfig: { layout?: string; gridColumns?: number; source?: string; tableTag?: string; anchor?: string }; 
 	trackerSections: string[] 
 } {
-	const blockConfig: { layout?: string; gridColumns?: number; source?: string; tableTag?: string } = {};
+	const blockConfig: { layout?: string; gridColumns?: number; source?: string; tableTag?: string; anchor?: string } = {};
 	
 	// Block-level only attributes (not widget-specific)
 	const blockOnlyAttrs = ['layout', 'gridcolumns', 'grid_columns'];
 	// Attributes that are widget-specific (indicate a tracker section)
 	const widgetAttrs = ['type', 'keycolumn', 'key_column', 'valuecolumn', 'value_column', 
-		'key', 'value', 'pattern', 'goal', 'goalcolumn', 'goal_column', 'aggregate', 
+		'key', 'keys', 'value', 'pattern', 'goal', 'goalcolumn', 'goal_column', 'aggregate', 
 		'useregex', 'use_regex', 'period', 'label'];
 	// Attributes that can be block-level defaults OR widget-specific
-	const sharedAttrs = ['source', 'tabletag', 'table_tag'];
+	const sharedAttrs = ['source', 'tabletag', 'table_tag', 'anchor'];
 	
 	// First, check if there are multiple widgets (separated by ---)
 	let sections: string[];
@@ -80,6 +81,8 @@ function parseBlockAndTrackers(source: string): {
 					blockConfig.source = value;
 				} else if (key === 'tabletag' || key === 'table_tag') {
 					blockConfig.tableTag = value;
+				} else if (key === 'anchor') {
+					blockConfig.anchor = value;
 				}
 			} else {
 				widgetLines.push(line);
@@ -103,6 +106,50 @@ function parseBlockAndTrackers(source: string): {
 	return { blockConfig, trackerSections: trackerSections.filter(s => s.trim()) };
 }
 
+/**
+ * Mirrors parseValueMap from main.ts
+ */
+function parseValueMap(value: string): Record<string, number> {
+	const valueMap: Record<string, number> = {};
+	for (const entry of value.split(',').map(e => e.trim()).filter(e => e)) {
+		const separator = entry.lastIndexOf('=');
+		const text = entry.substring(0, separator).trim();
+		const amount = entry.substring(separator + 1).trim();
+		if (separator <= 0 || !text || amount === '' || isNaN(Number(amount))) {
+			throw new Error(`Invalid valueMap entry: "${entry}". Use text=number, e.g. "great=5, good=4"`);
+		}
+		valueMap[text] = Number(amount);
+	}
+	return valueMap;
+}
+
+/**
+ * Mirrors parseList from main.ts
+ */
+function parseList(value: string): string[] | null {
+	if (!value.startsWith('[') || !value.endsWith(']')) return null;
+	return value.slice(1, -1).split(',')
+		.map(item => item.trim().replace(/^(["'])(.*)\1$/, '$2'))
+		.filter(item => item);
+}
+
+/**
+ * Mirrors parseMilestones from main.ts
+ */
+function parseMilestones(value: string): Array<{ value: number; name?: string }> {
+	const milestones = value.split(',').map(part => part.trim()).filter(part => part).map(part => {
+		const separator = part.indexOf('=');
+		const name = separator >= 0 ? part.substring(0, separator).trim() : undefined;
+		const amount = separator >= 0 ? part.substring(separator + 1).trim() : part;
+		const parsed = Number(amount);
+		if (amount === '' || isNaN(parsed)) {
+			throw new Error(`Invalid goal: "${value}"`);
+		}
+		return name ? { value: parsed, name } : { value: parsed };
+	});
+	return milestones.sort((a, b) => a.value - b.value);
+}
+
 /**
  * Mirrors the parseTrackerConfig logic from main.ts
  */
@@ -145,17 +192,34 @@ function parseTrackerConfig(
 				config.keyColumn = value;
 				break;
 			case 'key':
-				config.key = value;
+				config.key = parseList(value) ?? value;
+				break;
+			case 'keys':
+				config.keys = parseList(value) ?? value.split(',').map(k => k.trim()).filter(k => k);
 				break;
 			case 'valuecolumn':
 			case 'value_column':
 				config.valueColumn = value;
 				break;
 			case 'value':
-				config.value = value;
+				config.value = parseList(value) ?? value;
+				break;
+			case 'valuemap':
+			case 'value_map':
+				config.valueMap = parseValueMap(value);
 				break;
 			case 'aggregate':
-				config.aggregate = value;
+				config.aggregate = value.toLowerCase();
+				break;
+			case 'rowaggregate':
+			case 'row_aggregate':
+				config.rowAggregate = value.toLowerCase();
+				break;
+			case 'fileaggregate':
+			case 'file_aggregate':
+			case 'bucketaggregate':
+			case 'bucket_aggregate':
+				config.fileAggregate = value.toLowerCase();
 				break;
 			case 'pattern':
 				config.pattern = value;
@@ -164,9 +228,22 @@ function parseTrackerConfig(
 			case 'use_regex':
 				config.useRegex = value.toLowerCase() === 'true';
 				break;
-			case 'goal':
-				config.goal = parseInt(value, 10);
+			case 'goal': {
+				if (isGoalExpression(value)) {
+					const result = evaluateExpression(value, () => 1);
+					if (getExpressionReferences(value).length === 0 && !(result > 0)) {
+						throw new Error(`Invalid goal: "${value}" is ${result}, not a positive number`);
+					}
+					config.goalExpression = value;
+					break;
+				}
+				const milestones = parseMilestones(value);
+				if (milestones.length > 1 || milestones[0]?.name) {
+					config.milestones = milestones;
+				}
+				config.goal = milestones[milestones.length - 1]?.value;
 				break;
+			}
 			case 'goalcolumn':
 			case 'goal_column':
 				config.goalColumn = value;
@@ -236,6 +313,20 @@ function validateConfig(config: Record<string, unknown>): string | null {
 		return 'Either table mode or pattern mode must be specified';
 	}
 
+	// Streak options
+	if (config.streakUnit && !['day', 'week', 'month'].includes(config.streakUnit as string)) {
+		return `Invalid streakUnit: "${String(config.streakUnit)}". Use "day", "week" or "month"`;
+	}
+	if (config.streakThreshold !== undefined && isNaN(config.streakThreshold as number)) {
+		return 'Invalid streakThreshold: use the value a day must reach (e.g., 20)';
+	}
+	if (config.streakGrace !== undefined && (isNaN(config.streakGrace as number) || (config.streakGrace as number) < 0)) {
+		return 'Invalid streakGrace: use the number of missed units allowed (e.g., 1)';
+	}
+	if (config.streakThrough && config.streakThrough !== 'today' && config.streakThrough !== 'yesterday') {
+		return `Invalid streakThrough: "${String(config.streakThrough)}". Use "today" or "yesterday"`;
+	}
+
 	return null;
 }
 
@@ -434,6 +525,166 @@ gridColumns: 2`;
 	});
 });
 
+describe('Config Parsing - Anchor', () => {
+	it('should parse anchor as a block-level default', () => {
+		const source = `anchor: note
+source: folder:Daily
+
+type: counter
+pattern: "- [x] Exercise"
+---
+type: streak
+pattern: "- [x] Exercise"`;
+		const { blockConfig, trackerSections } = parseBlockAndTrackers(source);
+		expect(blockConfig.anchor).toBe('note');
+		expect(trackerSections[0]).not.toContain('anchor');
+	});
+
+	it('should keep anchor in the widget when it follows a widget attribute', () => {
+		const source = `source: folder:Daily
+
+type: counter
+anchor: note
+pattern: "- [x] Exercise"
+---
+type: streak
+pattern: "- [x] Exercise"`;
+		const { blockConfig, trackerSections } = parseBlockAndTrackers(source);
+		expect(blockConfig.anchor).toBeUndefined();
+		expect(trackerSections[0]).toContain('anchor: note');
+	});
+});
+
+describe('Config Parsing - Two-Level Aggregation', () => {
+	it('should parse row and file aggregates separately', () => {
+		const source = `type: counter
+source: folder:Daily
+keyColumn: Activity
+valueColumn: Minutes
+value: numeric
+rowAggregate: sum
+fileAggregate: average`;
+		const config = parseTrackerConfig(source);
+		expect(config.rowAggregate).toBe('sum');
+		expect(config.fileAggregate).toBe('average');
+		expect(config.aggregate).toBeUndefined();
+	});
+
+	it('should accept bucketAggregate as an alias for fileAggregate', () => {
+		const config = parseTrackerConfig(`bucket_aggregate: Median`);
+		expect(config.fileAggregate).toBe('median');
+	});
+});
+
+describe('Config Parsing - Goals and Milestones', () => {
+	it('should keep decimals in a single goal', () => {
+		const config = parseTrackerConfig(`goal: 7.5`);
+		expect(config.goal).toBe(7.5);
+		expect(config.milestones).toBeUndefined();
+	});
+
+	it('should use the highest milestone as the goal', () => {
+		const config = parseTrackerConfig(`goal: 20, 10, 30`);
+		expect(config.goal).toBe(30);
+		expect(config.milestones).toEqual([{ value: 10 }, { value: 20 }, { value: 30 }]);
+	});
+
+	it('should parse named tiers', () => {
+		const config = parseTrackerConfig(`goal: bronze=10, silver=20, gold=30`);
+		expect(config.milestones).toEqual([
+			{ value: 10, name: 'bronze' },
+			{ value: 20, name: 'silver' },
+			{ value: 30, name: 'gold' }
+		]);
+	});
+
+	it('should reject goals that are not numbers', () => {
+		expect(() => parseTrackerConfig(`goal: lots`)).toThrow('Invalid goal: "lots"');
+		expect(() => parseTrackerConfig(`goal: gold=`)).toThrow('Invalid goal');
+	});
+
+	it('should reject arithmetic that is not a positive goal, such as a range written "7-9"', () => {
+		expect(() => parseTrackerConfig(`goal: 7-9`)).toThrow('Invalid goal: "7-9" is -2');
+		expect(() => parseTrackerConfig(`goal: 3 - 3`)).toThrow('Invalid goal');
+		expect(parseTrackerConfig(`goal: 30 * 7`).goalExpression).toBe('30 * 7');
+		expect(parseTrackerConfig(`goal: frontmatter:target - 5`).goalExpression).toBe('frontmatter:target - 5');
+	});
+});
+
+describe('Config Parsing - List Syntax', () => {
+	it('should parse a bracketed key list', () => {
+		const config = parseTrackerConfig(`key: [Run, Jog, "Trail run"]`);
+		expect(config.key).toEqual(['Run', 'Jog', 'Trail run']);
+	});
+
+	it('should parse a bracketed value list', () => {
+		const config = parseTrackerConfig(`value: [✓, x]`);
+		expect(config.value).toEqual(['✓', 'x']);
+	});
+
+	it('should keep plain values as text', () => {
+		const config = parseTrackerConfig(`key: Run, Jog`);
+		expect(config.key).toBe('Run, Jog');
+	});
+});
+
+describe('Config Parsing - Value Map', () => {
+	it('should parse rating words', () => {
+		const config = parseTrackerConfig(`valueMap: great=5, good=4, ok=3, bad=1`);
+		expect(config.valueMap).toEqual({ great: 5, good: 4, ok: 3, bad: 1 });
+	});
+
+	it('should parse symbols and decimals', () => {
+		const config = parseTrackerConfig(`value_map: ✓=1, ½=0.5, ✗=0`);
+		expect(config.valueMap).toEqual({ '✓': 1, '½': 0.5, '✗': 0 });
+	});
+
+	it('should reject entries without a number', () => {
+		expect(() => parseTrackerConfig(`valueMap: great, good=4`)).toThrow('Invalid valueMap entry: "great"');
+		expect(() => parseTrackerConfig(`valueMap: great=lots`)).toThrow('Invalid valueMap entry');
+	});
+});
+
+describe('Config Parsing - Multiple Keys', () => {
+	it('should split comma-separated keys', () => {
+		const source = `type: stacked_bar
+source: folder:Daily
+keyColumn: Activity
+keys: Exercise, Reading, Meditation
+valueColumn: Minutes
+value: numeric`;
+		const config = parseTrackerConfig(source);
+		expect(config.keys).toEqual(['Exercise', 'Reading', 'Meditation']);
+	});
+
+	it('should parse a bracketed keys list', () => {
+		const config = parseTrackerConfig(`keys: [Pushups, Squats, "Sit-ups"]`);
+		expect(config.keys).toEqual(['Pushups', 'Squats', 'Sit-ups']);
+	});
+
+	it('should ignore empty entries in keys', () => {
+		const config = parseTrackerConfig(`keys: Exercise,, Reading,`);
+		expect(config.keys).toEqual(['Exercise', 'Reading']);
+	});
+
+	it('should treat keys as a widget attribute in dashboards', () => {
+		const source = `source: folder:Daily
+
+keys: Exercise, Reading
+type: stacked_bar
+keyColumn: Activity
+valueColumn: Minutes
+value: numeric
+---
+type: counter
+keyColumn: Activity
+valueColumn: Minutes
+value: numeric`;
+		const { trackerSections } = parseBlockAndTrackers(source);
+		expect(trackerSections[0]).toContain('keys: Exercise, Reading');
+	});
+});
+
 describe('Config Validation - Error Handling', () => {
 
 	describe('Missing Required Fields', () => {
@@ -565,6 +816,33 @@ describe('Config Validation - Error Handling', () => {
 		});
 	});
 
+	describe('Streak Options', () => {
+		const streak = { type: 'streak', source: 'folder:Daily Notes', pattern: '- [x] Run' };
+
+		it('should reject streak units other than day, week or month', () => {
+			expect(validateConfig({ ...streak, streakUnit: 'weekly' }))
+				.toBe('Invalid streakUnit: "weekly". Use "day", "week" or "month"');
+			expect(validateConfig({ ...streak, streakUnit: 'week' })).toBeNull();
+		});
+
+		it('should reject a threshold that is not a number', () => {
+			expect(validateConfig({ ...streak, streakThreshold: parseFloat('lots') }))
+				.toContain('Invalid streakThreshold');
+		});
+
+		it('should reject a grace that is not a count of missed units', () => {
+			expect(validateConfig({ ...streak, streakGrace: parseInt('one', 10) })).toContain('Invalid streakGrace');
+			expect(validateConfig({ ...streak, streakGrace: -1 })).toContain('Invalid streakGrace');
+			expect(validateConfig({ ...streak, streakGrace: 0 })).toBeNull();
+		});
+
+		it('should only count streaks through today or yesterday', () => {
+			expect(validateConfig({ ...streak, streakThrough: 'tomorrow' }))
+				.toBe('Invalid streakThrough: "tomorrow". Use "today" or "yesterday"');
+			expect(validateConfig({ ...streak, streakThrough: 'yesterday' })).toBeNull();
+		});
+	});
+
 	describe('Valid Configurations', () => {
 		it('should validate complete table mode config', () => {
 			const config = {
@@ -0,0 +1,70 @@
+/**
+ * Tests for goal expressions (references and arithmetic in `goal:`)
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { evaluateExpression, getExpressionReferences, isGoalExpression } from '../src/utils/expression';
+
+describe('Goal Expressions', () => {
+	const values: Record<string, number> = {
+		'frontmatter:dailyTarget': 30,
+		'file:Goals.md#Exercise': 5,
+		'file:Plans/2026-goals.md#Morning Run': 12
+	};
+	const resolve = (reference: string) => values[reference] ?? NaN;
+
+	describe('isGoalExpression', () => {
+		it('should treat numbers and milestone lists as plain goals', () => {
+			expect(isGoalExpression('30')).toBe(false);
+			expect(isGoalExpression('7.5')).toBe(false);
+			expect(isGoalExpression('-5')).toBe(false);
+			expect(isGoalExpression('10, 20, 30')).toBe(false);
+			expect(isGoalExpression('level-1=10, level-2=20')).toBe(false);
+		});
+
+		it('should detect references and arithmetic', () => {
+			expect(isGoalExpression('frontmatter:weeklyTarget')).toBe(true);
+			expect(isGoalExpression('file:Goals.md#Exercise')).toBe(true);
+			expect(isGoalExpression('30 * 7')).toBe(true);
+		});
+	});
+
+	describe('evaluateExpression', () => {
+		it('should respect operator precedence and parentheses', () => {
+			expect(evaluateExpression('2 + 3 * 4', resolve)).toBe(14);
+			expect(evaluateExpression('(2 + 3) * 4', resolve)).toBe(20);
+			expect(evaluateExpression('30*7', resolve)).toBe(210);
+			expect(evaluateExpression('-2 + 10 / 4', resolve)).toBe(0.5);
+		});
+
+		it('should resolve references', () => {
+			expect(evaluateExpression('frontmatter:dailyTarget * 7', resolve)).toBe(210);
+			expect(evaluateExpression('(file:Goals.md#Exercise + 1) * 2', resolve)).toBe(12);
+		});
+
+		it('should keep hyphens and spaces inside references', () => {
+			expect(evaluateExpression('file:Plans/2026-goals.md#Morning Run - 2', resolve)).toBe(10);
+		});
+
+		it('should return NaN when a reference has no value', () => {
+			expect(evaluateExpression('frontmatter:missing * 2', resolve)).toBeNaN();
+		});
+
+		it('should reject malformed expressions', () => {
+			expect(() => evaluateExpression('2 +', resolve)).toThrow('Unexpected end of expression');
+			expect(() => evaluateExpression('(2 + 3', resolve)).toThrow('Missing ")"');
+			expect(() => evaluateExpression('2 3', resolve)).toThrow('Unexpected "3"');
+			expect(() => evaluateExpression('2 % 3', resolve)).toThrow('Unexpected "%"');
+		});
+	});
+
+	describe('getExpressionReferences', () => {
+		it('should list every reference', () => {
+			expect(getExpressionReferences('frontmatter:dailyTarget * 5 + file:Goals.md#Exercise')).toEqual([
+				'frontmatter:dailyTarget',
+				'file:Goals.md#Exercise'
+			]);
+		});
+	});
+});
@@ -0,0 +1,120 @@
+/**
+ * Tests for where clause row filters
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { matchesText, matchesWhereClause, parseTextMatch, parseWhereClause } from '../src/utils/filter';
+
+describe('Where Clause Filters', () => {
+	const headers = ['Activity', 'Category', 'Minutes', 'Status'];
+	const rows = [
+		['Running', 'Fitness', '30', 'done'],
+		['Yoga', 'fitness', '15', 'done'],
+		['Reading', 'Learning', '45', 'skipped'],
+		['Cycling', 'Fitness', '60', 'Skipped'],
+	];
+	const matching = (where: string) => rows
+		.filter(row => matchesWhereClause(parseWhereClause(where), headers, row))
+		.map(row => row[0]);
+
+	describe('parseWhereClause', () => {
+		it('should parse conditions joined with and', () => {
+			expect(parseWhereClause('Category = Fitness and Minutes > 20')).toEqual([[
+				{ column: 'Category', operator: '=', value: 'Fitness' },
+				{ column: 'Minutes', operator: '>', value: '20' }
+			]]);
+		});
+
+		it('should start a new group for each or', () => {
+			expect(parseWhereClause('Minutes >= 60 or Status != done AND Category = Learning')).toHaveLength(2);
+		});
+
+		it('should keep and/or inside quoted values', () => {
+			expect(parseWhereClause('Activity = "Rock and Roll"')).toEqual([[
+				{ column: 'Activity', operator: '=', value: 'Rock and Roll' }
+			]]);
+			expect(parseWhereClause("Activity = 'Rock and Roll' or Minutes > 5")).toEqual([
+				[{ column: 'Activity', operator: '=', value: 'Rock and Roll' }],
+				[{ column: 'Minutes', operator: '>', value: '5' }]
+			]);
+		});
+
+		it('should treat apostrophes inside words as text', () => {
+			expect(parseWhereClause("Note = Mom's and Status = done")).toEqual([[
+				{ column: 'Note', operator: '=', value: "Mom's" },
+				{ column: 'Status', operator: '=', value: 'done' }
+			]]);
+		});
+
+		it('should reject conditions without an operator or value', () => {
+			expect(() => parseWhereClause('Category Fitness')).toThrow('Invalid where condition');
+			expect(() => parseWhereClause('Minutes >')).toThrow('Invalid where condition');
+		});
+	});
+
+	describe('matchesWhereClause', () => {
+		it('should compare text ignoring case', () => {
+			expect(matching('Category = Fitness')).toEqual(['Running', 'Yoga', 'Cycling']);
+			expect(matching('Status != skipped')).toEqual(['Running', 'Yoga']);
+		});
+
+		it('should compare numbers numerically', () => {
+			expect(matching('Minutes > 20')).toEqual(['Running', 'Reading', 'Cycling']);
+			expect(matching('Minutes <= 30')).toEqual(['Running', 'Yoga']);
+		});
+
+		it('should require every condition joined with and', () => {
+			expect(matching('Category = Fitness and Minutes > 20')).toEqual(['Running', 'Cycling']);
+		});
+
+		it('should match any group joined with or', () => {
+			expect(matching('Minutes < 20 or Category = Learning')).toEqual(['Yoga', 'Reading']);
+		});
+
+		it('should not match cells that are not numbers against a number', () => {
+			const cells = ['30', 'n/a', '—', '10', ''];
+			const minutes = (where: string) => cells
+				.filter(cell => matchesWhereClause(parseWhereClause(where), ['Minutes'], [cell]));
+			expect(minutes('Minutes > 20')).toEqual(['30']);
+			expect(minutes('Minutes <= 20')).toEqual(['10']);
+			expect(minutes('Minutes = 30')).toEqual(['30']);
+			expect(minutes('Minutes != 30')).toEqual(['n/a', '—', '10', '']);
+		});
+
+		it('should not match rows when the column is missing', () => {
+			expect(matching('Mood = great')).toEqual([]);
+		});
+	});
+});
+
+describe('Key and Value Matching', () => {
+	it('should default to case-sensitive substring matching', () => {
+		expect(matchesText('Running form drills', 'Run')).toBe(true);
+		expect(matchesText('running', 'Run')).toBe(false);
+	});
+
+	it('should match the whole cell in exact mode', () => {
+		const exact = parseTextMatch('exact');
+		expect(matchesText('Run', 'Run', exact)).toBe(true);
+		expect(matchesText(' Run ', 'Run', exact)).toBe(true);
+		expect(matchesText('Running form drills', 'Run', exact)).toBe(false);
+	});
+
+	it('should ignore case with ci', () => {
+		expect(matchesText('RUN', 'run', parseTextMatch('exact ci'))).toBe(true);
+		expect(matchesText('Morning RUN', 'run', parseTextMatch('ci'))).toBe(true);
+	});
+
+	it('should match regular expressions', () => {
+		const regex = parseTextMatch('regex');
+		expect(matchesText('Jog', '^(Run|Jog)$', regex)).toBe(true);
+		expect(matchesText('Jogging', '^(Run|Jog)$', regex)).toBe(false);
+		expect(matchesText('anything', '(', regex)).toBe(false);
+	});
+
+	it('should reject unknown match modes', () => {
+		expect(() => parseTextMatch('fuzzy')).toThrow('Invalid match mode');
+		expect(parseTextMatch('regex, ci')).toEqual({ mode: 'regex', ignoreCase: true });
+	});
+});
@@ -917,3 +917,1109 @@ describe('Period Filtering', () => {
 		});
 	});
 });
+
+/**
+ * Tests for grouping table values by key (multi-series line plots, stacked bars)
+ */
+describe('Multi-Key Extraction', () => {
+	/**
+	 * Mirrors the keys handling in extractFromTables (numeric values, single table)
+	 */
+	function extractValuesByKey(
+		content: string,
+		keyColumn: string,
+		keys: string[],
+		valueColumn: string
+	): { values: number[]; valuesByKey: Map<string, number[]> } {
+		const values: number[] = [];
+		const valuesByKey = new Map<string, number[]>();
+		let headerColumns: string[] = [];
+		let keyColumnIndex = -1;
+		let valueColumnIndex = -1;
+
+		for (const line of content.split('\n')) {
+			if (!line.trim().startsWith('|')) continue;
+
+			if (headerColumns.length === 0) {
+				headerColumns = parseTableCells(line);
+				keyColumnIndex = headerColumns.findIndex(h => h.toLowerCase() === keyColumn.toLowerCase());
+				valueColumnIndex = headerColumns.findIndex(h => h.toLowerCase() === valueColumn.toLowerCase());
+				continue;
+			}
+			if (line.includes('---')) continue;
+
+			const cells = parseTableCells(line);
+			const keyCell = cells[keyColumnIndex];
+			const matchedKey = keys.find(k => keyCell?.includes(k));
+			if (!matchedKey) continue;
+
+			const num = parseFloat(cells[valueColumnIndex] ?? '');
+			if (isNaN(num)) continue;
+
+			values.push(num);
+			const keyValues = valuesByKey.get(matchedKey) ?? [];
+			keyValues.push(num);
+			valuesByKey.set(matchedKey, keyValues);
+		}
+
+		return { values, valuesByKey };
+	}
+
+	const content = `
+| Activity   | Minutes |
+|------------|---------|
+| Pushups    | 10      |
+| Squats     | 20      |
+| Pushups    | 5       |
+| Stretching | 15      |
+| Lunges     | 8       |
+`;
+
+	it('should group values by matched key', () => {
+		const { valuesByKey } = extractValuesByKey(content, 'Activity', ['Pushups', 'Squats', 'Lunges'], 'Minutes');
+		expect(valuesByKey.get('Pushups')).toEqual([10, 5]);
+		expect(valuesByKey.get('Squats')).toEqual([20]);
+		expect(valuesByKey.get('Lunges')).toEqual([8]);
+	});
+
+	it('should exclude rows that match none of the keys', () => {
+		const { values, valuesByKey } = extractValuesByKey(content, 'Activity', ['Pushups', 'Squats', 'Lunges'], 'Minutes');
+		expect(values).toEqual([10, 20, 5, 8]);
+		expect(valuesByKey.has('Stretching')).toBe(false);
+	});
+
+	it('should leave keys without rows absent from the map', () => {
+		const { valuesByKey } = extractValuesByKey(content, 'Activity', ['Pushups', 'Burpees'], 'Minutes');
+		expect(valuesByKey.get('Burpees')).toBeUndefined();
+	});
+});
+
+/**
+ * Tests for reading row dates from a date column (single log table)
+ */
+describe('Date Column Grouping', () => {
+	/**
+	 * Mirrors groupRowsByDate: one entry per day (summed here), sorted, rows before the period start dropped
+	 */
+	function groupRowsByDate(
+		rows: Array<{ date: Date; value: number }>,
+		startOfPeriod: Date
+	): Array<{ date: string; value: number }> {
+		const rowsByDay = new Map<string, number>();
+		for (const row of rows) {
+			if (row.date.getTime() < startOfPeriod.getTime()) continue;
+			const dayKey = row.date.toISOString().substring(0, 10);
+			rowsByDay.set(dayKey, (rowsByDay.get(dayKey) ?? 0) + row.value);
+		}
+		return Array.from(rowsByDay, ([date, value]) => ({ date, value }))
+			.sort((a, b) => a.date.localeCompare(b.date));
+	}
+
+	const rows = [
+		{ date: new Date('2026-01-03T00:00:00Z'), value: 20 },
+		{ date: new Date('2026-01-01T00:00:00Z'), value: 30 },
+		{ date: new Date('2026-01-03T00:00:00Z'), value: 15 },
+		{ date: new Date('2025-12-30T00:00:00Z'), value: 45 },
+	];
+
+	it('should combine rows sharing a date into one point', () => {
+		const entries = groupRowsByDate(rows, new Date(0));
+		expect(entries).toContainEqual({ date: '2026-01-03', value: 35 });
+	});
+
+	it('should sort points chronologically regardless of row order', () => {
+		const entries = groupRowsByDate(rows, new Date(0));
+		expect(entries.map(e => e.date)).toEqual(['2025-12-30', '2026-01-01', '2026-01-03']);
+	});
+
+	it('should drop rows dated before the period start', () => {
+		const entries = groupRowsByDate(rows, new Date('2026-01-01T00:00:00Z'));
+		expect(entries.map(e => e.date)).toEqual(['2026-01-01', '2026-01-03']);
+	});
+});
+
+/**
+ * Tests for weekly grid tables (days as columns)
+ */
+describe('Weekly Grid Day Columns', () => {
+	const ENGLISH_WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+	/**
+	 * Mirrors parseWeekday (English names only)
+	 */
+	function parseWeekday(text: string): number | null {
+		const name = text.trim().toLowerCase().replace(/\.$/, '');
+		if (!name) return null;
+		for (const list of [ENGLISH_WEEKDAYS, ENGLISH_WEEKDAYS.map(d => d.substring(0, 3))]) {
+			const index = list.findIndex(d => d.toLowerCase() === name);
+			if (index >= 0) return index;
+		}
+		return null;
+	}
+
+	/**
+	 * Mirrors the weekday resolution in resolveDayColumns: the first weekday falls on or before
+	 * the note's date, later ones on or after the previous column (no dependence on the locale's week start)
+	 */
+	function resolveWeekdays(weekdays: number[], noteDate: Date): Date[] {
+		let previous: Date | null = null;
+		return weekdays.map(weekday => {
+			const day: Date = previous
+				? new Date(previous.getFullYear(), previous.getMonth(), previous.getDate() + (weekday - previous.getDay() + 7) % 7)
+				: new Date(noteDate.getFullYear(), noteDate.getMonth(), noteDate.getDate() - (noteDate.getDay() - weekday + 7) % 7);
+			previous = day;
+			return day;
+		});
+	}
+
+	const MON_TO_SUN = [1, 2, 3, 4, 5, 6, 0];
+	const SUN_TO_SAT = [0, 1, 2, 3, 4, 5, 6];
+
+	it('should parse short and full weekday names', () => {
+		expect(parseWeekday('Mon')).toBe(1);
+		expect(parseWeekday('monday')).toBe(1);
+		expect(parseWeekday('Sun')).toBe(0);
+		expect(parseWeekday('Sat.')).toBe(6);
+	});
+
+	it('should not treat other headers as weekdays', () => {
+		expect(parseWeekday('Habit')).toBeNull();
+		expect(parseWeekday('')).toBeNull();
+	});
+
+	it('should resolve weekdays in column order from the note\'s week', () => {
+		// Mon ... Sun columns in a note dated Monday 2026-01-12
+		const days = resolveWeekdays(MON_TO_SUN, new Date(2026, 0, 12));
+		expect(days.map(d => d.getDate())).toEqual([12, 13, 14, 15, 16, 17, 18]);
+	});
+
+	it('should keep Sunday-first tables in the note\'s week', () => {
+		// Sun ... Sat columns in a note dated Wednesday 2026-01-14
+		const days = resolveWeekdays(SUN_TO_SAT, new Date(2026, 0, 14));
+		expect(days.map(d => d.getDate())).toEqual([11, 12, 13, 14, 15, 16, 17]);
+	});
+
+	it('should end a Monday-first grid on a Sunday-dated note, not in the following week', () => {
+		// Mon ... Sun columns in a note dated Sunday 2026-10-18 (a Sunday-first locale starts that week on the 18th)
+		const days = resolveWeekdays(MON_TO_SUN, new Date(2026, 9, 18));
+		expect(days.map(d => d.getDate())).toEqual([12, 13, 14, 15, 16, 17, 18]);
+	});
+
+	it('should keep a Sunday-first grid around the note\'s date in a Monday-first locale', () => {
+		// Sun ... Sat columns in a note dated Wednesday 2026-10-14 (a Monday-first week starts on the 12th)
+		const days = resolveWeekdays(SUN_TO_SAT, new Date(2026, 9, 14));
+		expect(days.map(d => d.getDate())).toEqual([11, 12, 13, 14, 15, 16, 17]);
+	});
+
+	it('should always contain the note\'s date', () => {
+		for (let date = 11; date <= 17; date++) {
+			const noteDate = new Date(2026, 9, date);
+			for (const order of [MON_TO_SUN, SUN_TO_SAT]) {
+				const days = resolveWeekdays(order, noteDate).map(d => d.getTime());
+				expect(days).toContain(noteDate.getTime());
+			}
+		}
+	});
+});
+
+/**
+ * Tests for current/best streak calculation with grace days
+ */
+describe('Streak Calculation', () => {
+	/**
+	 * Mirrors calculateStreaks, with dates given as day offsets relative to today (0 = today, -1 = yesterday)
+	 */
+	function calculateStreaks(
+		dayOffsets: number[],
+		grace = 0,
+		through: 'today' | 'yesterday' = 'today'
+	): { current: number; best: number } {
+		const uniqueDays = Array.from(new Set(dayOffsets.filter(d => d <= 0))).sort((a, b) => a - b);
+		const lastDay = uniqueDays[uniqueDays.length - 1];
+		if (lastDay === undefined) return { current: 0, best: 0 };
+
+		let run = 0;
+		let best = 0;
+		let previous: number | undefined;
+		for (const day of uniqueDays) {
+			const missed = previous !== undefined ? day - previous - 1 : 0;
+			run = missed <= grace ? run + 1 : 1;
+			best = Math.max(best, run);
+			previous = day;
+		}
+
+		const anchor = through === 'yesterday' && lastDay !== 0 ? -1 : 0;
+		const current = anchor - lastDay <= grace ? run : 0;
+		return { current, best };
+	}
+
+	it('should count consecutive days ending today', () => {
+		expect(calculateStreaks([0, -1, -2, -5])).toEqual({ current: 3, best: 3 });
+	});
+
+	it('should report 0 when today has no entry yet', () => {
+		expect(calculateStreaks([-1, -2, -3]).current).toBe(0);
+	});
+
+	it('should count through yesterday when configured', () => {
+		expect(calculateStreaks([-1, -2, -3], 0, 'yesterday').current).toBe(3);
+		expect(calculateStreaks([0, -1, -2], 0, 'yesterday').current).toBe(3);
+	});
+
+	it('should track the longest streak separately from the current one', () => {
+		expect(calculateStreaks([0, -10, -11, -12, -13])).toEqual({ current: 1, best: 4 });
+	});
+
+	it('should bridge gaps within the grace allowance without counting missed days', () => {
+		expect(calculateStreaks([0, -2, -3, -5], 1)).toEqual({ current: 4, best: 4 });
+		expect(calculateStreaks([0, -3, -4], 1)).toEqual({ current: 1, best: 2 });
+	});
+
+	it('should ignore future dates', () => {
+		expect(calculateStreaks([1, 2, 0])).toEqual({ current: 1, best: 1 });
+	});
+
+	/**
+	 * Mirrors the unit grouping in calculateStreaks: days are grouped into weeks (offset / 7),
+	 * aggregated with "count" and kept when they meet the threshold
+	 */
+	function activeWeeks(dayOffsets: number[], threshold: number): number[] {
+		const daysByWeek = new Map<number, number>();
+		for (const day of dayOffsets) {
+			const week = Math.floor(day / 7);
+			daysByWeek.set(week, (daysByWeek.get(week) ?? 0) + 1);
+		}
+		return Array.from(daysByWeek)
+			.filter(([, count]) => count >= threshold)
+			.map(([week]) => week)
+			.sort((a, b) => a - b);
+	}
+
+	it('should only count weeks meeting the threshold', () => {
+		// Week 0: 3 days, week -1: 2 days, week -2: 4 days
+		const days = [0, 1, 2, -7, -6, -14, -13, -12, -11];
+		expect(activeWeeks(days, 3)).toEqual([-2, 0]);
+		expect(activeWeeks(days, 2)).toEqual([-2, -1, 0]);
+	});
+
+	it('should feed active weeks into the same run logic as days', () => {
+		const weeks = activeWeeks([0, 1, 2, -7, -6, -5, -21, -20, -19], 3);
+		expect(calculateStreaks(weeks)).toEqual({ current: 2, best: 2 });
+	});
+});
+
+/**
+ * Tests for period bounds: rolling windows, previous periods and the upper bound
+ */
+describe('Period Bounds', () => {
+	/**
+	 * Mirrors getPeriodBounds for day-based periods (dates as YYYY-MM-DD strings for readability)
+	 */
+	function getPeriodBounds(period: string, today: Date): { start: string; end: string } | null {
+		const format = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+		const addDays = (d: Date, days: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+
+		if (period === 'all-time') return null;
+
+		const rolling = period.match(/^last-(\d+)-days$/);
+		if (rolling) {
+			const amount = parseInt(rolling[1] ?? '1', 10);
+			return { start: format(addDays(today, -amount + 1)), end: format(today) };
+		}
+
+		if (period === 'previous-month') {
+			const start = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+			const end = new Date(today.getFullYear(), today.getMonth(), 0);
+			return { start: format(start), end: format(end) };
+		}
+
+		if (period === 'monthly') {
+			const start = new Date(today.getFullYear(), today.getMonth(), 1);
+			const end = new Date(today.getFullYear(), today.getMonth() + 1, 0);
+			return { start: format(start), end: format(end) };
+		}
+
+		return null;
+	}
+
+	function isWithinBounds(date: string, bounds: { start: string; end: string } | null): boolean {
+		if (!bounds) return true;
+		return date >= bounds.start && date <= bounds.end;
+	}
+
+	const today = new Date(2026, 2, 15); // 2026-03-15
+
+	it('should include today and the previous N-1 days in a rolling window', () => {
+		expect(getPeriodBounds('last-7-days', today)).toEqual({ start: '2026-03-09', end: '2026-03-15' });
+	});
+
+	it('should cover the whole previous calendar month', () => {
+		expect(getPeriodBounds('previous-month', today)).toEqual({ start: '2026-02-01', end: '2026-02-28' });
+	});
+
+	it('should exclude future-dated files from the current period', () => {
+		const bounds = getPeriodBounds('monthly', today);
+		expect(isWithinBounds('2026-03-20', bounds)).toBe(true);
+		expect(isWithinBounds('2026-04-01', bounds)).toBe(false);
+		expect(isWithinBounds('2026-02-28', bounds)).toBe(false);
+	});
+
+	it('should not bound all-time', () => {
+		expect(isWithinBounds('2099-01-01', getPeriodBounds('all-time', today))).toBe(true);
+	});
+
+	it('should compare a rolling window with the window right before it', () => {
+		// Mirrors getPreviousPeriod: shift the reference date back by the window length
+		const previousToday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 7);
+		expect(getPeriodBounds('last-7-days', previousToday)).toEqual({ start: '2026-03-02', end: '2026-03-08' });
+	});
+
+	it('should compare a calendar month with the month before it', () => {
+		const previousToday = new Date(today.getFullYear(), today.getMonth() - 1, today.getDate());
+		expect(getPeriodBounds('monthly', previousToday)).toEqual({ start: '2026-02-01', end: '2026-02-28' });
+	});
+});
+
+/**
+ * Tests for finding dates in filenames with a configured moment.js format
+ */
+describe('Date Formats', () => {
+	const DATE_TOKEN_PATTERNS: Record<string, string> = {
+		YYYY: '\\d{4}',
+		gggg: '\\d{4}',
+		MM: '\\d{2}',
+		DD: '\\d{2}',
+		ww: '\\d{2}',
+	};
+
+	/**
+	 * Mirrors getDateFormatRegex (subset of tokens)
+	 */
+	function getDateFormatRegex(format: string): RegExp {
+		const tokens = format.match(/\[[^\]]*\]|YYYY|GGGG|gggg|YY|MMMM|MMM|MM|M|Do|DD|D|WW|W|ww|w|dddd|ddd|Q|./g) ?? [];
+		const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		const pattern = tokens.map(token => {
+			if (token.startsWith('[') && token.endsWith(']')) {
+				return escape(token.slice(1, -1));
+			}
+			return DATE_TOKEN_PATTERNS[token] ?? escape(token);
+		}).join('');
+		return new RegExp(`(?:^|\\D)(${pattern})(?!\\d)`, 'i');
+	}
+
+	/**
+	 * Mirrors getDateFormatUnit
+	 */
+	function getDateFormatUnit(format: string): string {
+		const tokens = format.replace(/\[[^\]]*\]/g, '');
+		if (/D|d/.test(tokens)) return 'day';
+		if (/W|w/.test(tokens)) return 'week';
+		if (/M|Q/.test(tokens)) return 'month';
+		return 'year';
+	}
+
+	it('should find weekly note dates with literal text', () => {
+		expect('Review 2024-W05'.match(getDateFormatRegex('gggg-[W]ww'))?.[1]).toBe('2024-W05');
+	});
+
+	it('should find monthly and yearly note dates', () => {
+		expect('2024-03 Monthly'.match(getDateFormatRegex('YYYY-MM'))?.[1]).toBe('2024-03');
+		expect('2024'.match(getDateFormatRegex('YYYY'))?.[1]).toBe('2024');
+	});
+
+	it('should not match inside longer digit runs', () => {
+		expect('20240115'.match(getDateFormatRegex('YYYY'))).toBeNull();
+		expect('123-2024-01-15'.match(getDateFormatRegex('YYYY-MM-DD'))?.[1]).toBe('2024-01-15');
+	});
+
+	it('should honour custom separators', () => {
+		expect('Journal 15.01.2024'.match(getDateFormatRegex('DD.MM.YYYY'))?.[1]).toBe('15.01.2024');
+		expect('15-01-2024'.match(getDateFormatRegex('DD.MM.YYYY'))).toBeNull();
+	});
+
+	it('should derive the unit a format stands for', () => {
+		expect(getDateFormatUnit('YYYY-MM-DD')).toBe('day');
+		expect(getDateFormatUnit('gggg-[W]ww')).toBe('week');
+		expect(getDateFormatUnit('YYYY-MM')).toBe('month');
+		expect(getDateFormatUnit('YYYY')).toBe('year');
+	});
+});
+
+/**
+ * Tests for resolving file dates from several sources and sorting chronologically
+ */
+describe('File Date Sources', () => {
+	interface MockFile {
+		basename: string;
+		frontmatter: Record<string, string>;
+		mtime: number;
+	}
+
+	/**
+	 * Mirrors getFileDate: sources are tried in order until one yields a date
+	 */
+	function getFileDate(file: MockFile, sources: string[]): Date | null {
+		for (const source of sources) {
+			let text: string | undefined;
+			if (source === 'filename') {
+				text = file.basename;
+			} else if (source === 'mtime') {
+				return new Date(file.mtime);
+			} else {
+				text = file.frontmatter[source];
+			}
+			const match = text?.match(/(\d{4})-(\d{2})-(\d{2})/);
+			if (match) {
+				return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Mirrors the scanFolder sort: dated files chronologically, undated files last by name
+	 */
+	function sortFiles(files: Array<{ name: string; date: Date | null }>): string[] {
+		return files.sort((a, b) => {
+			if (a.date && b.date) return a.date.getTime() - b.date.getTime();
+			if (a.date) return -1;
+			if (b.date) return 1;
+			return a.name.localeCompare(b.name);
+		}).map(f => f.name);
+	}
+
+	const meeting: MockFile = { basename: 'Team meeting', frontmatter: { date: '2026-02-03' }, mtime: new Date(2026, 1, 5).getTime() };
+
+	it('should fall back to frontmatter when the filename has no date', () => {
+		expect(getFileDate(meeting, ['filename', 'date'])?.getDate()).toBe(3);
+	});
+
+	it('should fall back to modified time as a last resort', () => {
+		expect(getFileDate(meeting, ['filename', 'created', 'mtime'])?.getDate()).toBe(5);
+	});
+
+	it('should return null when no source yields a date', () => {
+		expect(getFileDate(meeting, ['filename'])).toBeNull();
+	});
+
+	it('should sort DD-MM-YYYY names chronologically rather than by name', () => {
+		const files = [
+			{ name: '01-02-2026', date: new Date(2026, 1, 1) },
+			{ name: '15-01-2026', date: new Date(2026, 0, 15) },
+			{ name: 'Notes', date: null },
+			{ name: '02-01-2026', date: new Date(2026, 0, 2) },
+		];
+		expect(sortFiles(files)).toEqual(['02-01-2026', '15-01-2026', '01-02-2026', 'Notes']);
+	});
+});
+
+/**
+ * Tests for aggregation methods (mirrors FileScanner.aggregate)
+ */
+describe('Aggregation Methods', () => {
+	function percentile(values: number[], p: number): number {
+		const sorted = [...values].sort((a, b) => a - b);
+		const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+		const lower = sorted[Math.floor(rank)] ?? 0;
+		const upper = sorted[Math.ceil(rank)] ?? lower;
+		return lower + (upper - lower) * (rank - Math.floor(rank));
+	}
+
+	function aggregate(values: number[], method: string, labels?: string[]): number {
+		if (method === 'distinct') {
+			return new Set(labels ?? values.filter(v => v !== 0).map(String)).size;
+		}
+		if (values.length === 0) return 0;
+
+		const p = method.match(/^p(\d+(?:\.\d+)?)$/);
+		if (p) return percentile(values, parseFloat(p[1] ?? '50'));
+
+		switch (method) {
+			case 'count': return values.filter(v => v > 0).length;
+			case 'count_all': return values.length;
+			case 'median': return percentile(values, 50);
+			case 'stddev': {
+				const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+				return Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length);
+			}
+			case 'first': return values[0] ?? 0;
+			case 'last': return values[values.length - 1] ?? 0;
+			default: return values.reduce((acc, v) => acc + v, 0);
+		}
+	}
+
+	const sleep = [7, 6.5, 8, 0, 7.5];
+
+	it('should count zeros only with count_all', () => {
+		expect(aggregate(sleep, 'count')).toBe(4);
+		expect(aggregate(sleep, 'count_all')).toBe(5);
+	});
+
+	it('should take the middle value for median', () => {
+		expect(aggregate(sleep, 'median')).toBe(7);
+		expect(aggregate([1, 2, 3, 4], 'median')).toBe(2.5);
+	});
+
+	it('should interpolate percentiles between ranks', () => {
+		expect(aggregate([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11], 'p90')).toBe(10);
+		expect(aggregate([10, 20], 'p25')).toBe(12.5);
+		expect(aggregate([10, 20], 'p100')).toBe(20);
+	});
+
+	it('should compute the population standard deviation', () => {
+		expect(aggregate([2, 4, 4, 4, 5, 5, 7, 9], 'stddev')).toBe(2);
+		expect(aggregate([5], 'stddev')).toBe(0);
+	});
+
+	it('should pick chronological first and last values', () => {
+		const weights = [82.4, 81.9, 81.2];
+		expect(aggregate(weights, 'first')).toBe(82.4);
+		expect(aggregate(weights, 'last')).toBe(81.2);
+	});
+
+	it('should count distinct labels rather than values', () => {
+		expect(aggregate([1, 1, 1], 'distinct', ['Run', 'Swim', 'Run'])).toBe(2);
+		expect(aggregate([3, 3, 5, 0], 'distinct')).toBe(2);
+		expect(aggregate([], 'distinct', [])).toBe(0);
+	});
+});
+
+/**
+ * Tests for combining rows per file, then files per result (mirrors getRowAggregate/getFileAggregate)
+ */
+describe('Two-Level Aggregation', () => {
+	function aggregate(values: number[], method: string): number {
+		if (values.length === 0) return 0;
+		switch (method) {
+			case 'count': return values.filter(v => v > 0).length;
+			case 'average': return values.reduce((acc, v) => acc + v, 0) / values.length;
+			default: return values.reduce((acc, v) => acc + v, 0);
+		}
+	}
+
+	function scanFolder(
+		rowsPerFile: number[][],
+		config: { aggregate?: string; rowAggregate?: string; fileAggregate?: string }
+	): number {
+		const rowMethod = config.rowAggregate || config.aggregate || 'count';
+		const fileMethod = config.fileAggregate || config.aggregate || 'count';
+		return aggregate(rowsPerFile.map(rows => aggregate(rows, rowMethod)), fileMethod);
+	}
+
+	// Minutes per activity row in three daily notes
+	const days = [[30, 20], [45], [0, 10, 5]];
+
+	it('should apply aggregate at both levels by default', () => {
+		// Average of per-file averages
+		expect(scanFolder(days, { aggregate: 'average' })).toBe((25 + 45 + 5) / 3);
+	});
+
+	it('should average daily totals with rowAggregate sum and fileAggregate average', () => {
+		expect(scanFolder(days, { rowAggregate: 'sum', fileAggregate: 'average' })).toBe(110 / 3);
+	});
+
+	it('should count rows across all files with fileAggregate sum', () => {
+		expect(scanFolder(days, { aggregate: 'count', fileAggregate: 'sum' })).toBe(5);
+	});
+
+	it('should count days with at least one value with count at both levels', () => {
+		expect(scanFolder([[1, 0], [0], [0, 1, 1]], { aggregate: 'count' })).toBe(2);
+	});
+});
+
+/**
+ * Tests for groupBy bucketing, zero-filling and cumulative mode (mirrors shapeTimeSeries for daily buckets)
+ */
+describe('Time Series Shaping', () => {
+	interface Point { date: string; value: number }
+
+	function shape(points: Point[], range: { start: string; end: string }, options: { groupBy?: 'day'; cumulative?: boolean }): Point[] {
+		let shaped = points;
+
+		if (options.groupBy) {
+			const valuesByDay = new Map<string, number>();
+			for (const point of points) {
+				valuesByDay.set(point.date, (valuesByDay.get(point.date) ?? 0) + point.value);
+			}
+			shaped = [];
+			const cursor = new Date(`${range.start}T00:00:00`);
+			const end = new Date(`${range.end}T00:00:00`);
+			while (cursor <= end) {
+				const date = `${cursor.getFullYear()}-${String(cursor.getMonth() + 1).padStart(2, '0')}-${String(cursor.getDate()).padStart(2, '0')}`;
+				shaped.push({ date, value: valuesByDay.get(date) ?? 0 });
+				cursor.setDate(cursor.getDate() + 1);
+			}
+		}
+
+		if (options.cumulative) {
+			let total = 0;
+			shaped = shaped.map(p => ({ date: p.date, value: total += p.value }));
+		}
+		return shaped;
+	}
+
+	const points = [
+		{ date: '2026-03-02', value: 5 },
+		{ date: '2026-03-02', value: 3 },
+		{ date: '2026-03-04', value: 2 },
+	];
+	const range = { start: '2026-03-01', end: '2026-03-05' };
+
+	it('should combine points per day and fill missing days with 0', () => {
+		expect(shape(points, range, { groupBy: 'day' }).map(p => p.value)).toEqual([0, 8, 0, 2, 0]);
+	});
+
+	it('should keep raw points without groupBy', () => {
+		expect(shape(points, range, {}).length).toBe(3);
+	});
+
+	it('should produce a running total in cumulative mode', () => {
+		expect(shape(points, range, { groupBy: 'day', cumulative: true }).map(p => p.value)).toEqual([0, 8, 8, 10, 10]);
+	});
+
+	it('should space plotted points by date rather than index', () => {
+		// Mirrors scaleX in renderLinePlot
+		const times = ['2026-03-01', '2026-03-02', '2026-03-11'].map(d => new Date(d).getTime());
+		const start = Math.min(...times);
+		const span = Math.max(...times) - start;
+		const xs = times.map(t => ((t - start) / span) * 100);
+		expect(xs).toEqual([0, 10, 100]);
+	});
+});
+
+/**
+ * Tests for line plot overlays (mirrors movingAverage and linearTrend, with x in days)
+ */
+describe('Line Plot Overlays', () => {
+	function movingAverage(values: number[], window: number): number[] {
+		return values.map((_, index) => {
+			const windowValues = values.slice(Math.max(index - window + 1, 0), index + 1);
+			return windowValues.reduce((acc, v) => acc + v, 0) / windowValues.length;
+		});
+	}
+
+	function linearTrend(points: Array<{ x: number; y: number }>): number[] {
+		const meanX = points.reduce((acc, p) => acc + p.x, 0) / points.length;
+		const meanY = points.reduce((acc, p) => acc + p.y, 0) / points.length;
+		let covariance = 0;
+		let variance = 0;
+		for (const p of points) {
+			covariance += (p.x - meanX) * (p.y - meanY);
+			variance += (p.x - meanX) ** 2;
+		}
+		const slope = variance > 0 ? covariance / variance : 0;
+		return points.map(p => meanY + slope * (p.x - meanX));
+	}
+
+	it('should average each point with the points before it', () => {
+		expect(movingAverage([2, 4, 6, 8], 2)).toEqual([2, 3, 5, 7]);
+	});
+
+	it('should use a shorter window at the start', () => {
+		expect(movingAverage([3, 6, 9], 7)).toEqual([3, 4.5, 6]);
+	});
+
+	it('should fit a line through evenly rising values', () => {
+		expect(linearTrend([{ x: 0, y: 1 }, { x: 1, y: 3 }, { x: 2, y: 5 }])).toEqual([1, 3, 5]);
+	});
+
+	it('should weigh points by date gaps rather than index', () => {
+		// One unit per day fits exactly; by index the gap before day 10 would bend the fit
+		const trend = linearTrend([{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 10, y: 10 }]);
+		trend.forEach((value, index) => expect(value).toBeCloseTo([0, 1, 10][index] ?? 0));
+	});
+
+	it('should draw a flat line for a single date', () => {
+		expect(linearTrend([{ x: 0, y: 4 }, { x: 0, y: 6 }])).toEqual([5, 5]);
+	});
+});
+
+/**
+ * Tests for goal pace (mirrors calculatePace with day-based periods)
+ */
+describe('Goal Pace', () => {
+	function calculatePace(count: number, goal: number, elapsedDays: number, periodDays: number): { expected: number; projected: number } | null {
+		if (periodDays <= 1 || elapsedDays >= periodDays) return null;
+		const elapsed = Math.min(Math.max(elapsedDays / periodDays, 0), 1);
+		return {
+			expected: goal * elapsed,
+			projected: elapsed > 0 ? count / elapsed : count
+		};
+	}
+
+	it('should expect a share of the goal matching the elapsed share of the period', () => {
+		// End of the 10th day of a 31-day month
+		const pace = calculatePace(12, 50, 10, 31);
+		expect(pace?.expected).toBeCloseTo(16.13, 2);
+		expect(pace?.projected).toBeCloseTo(37.2, 1);
+	});
+
+	it('should be ahead when the count beats the expected value', () => {
+		const pace = calculatePace(30, 50, 10, 31);
+		expect(30 - (pace?.expected ?? 0)).toBeGreaterThan(0);
+	});
+
+	it('should not compute pace for single-day or finished periods', () => {
+		expect(calculatePace(1, 1, 0.5, 1)).toBeNull();
+		expect(calculatePace(40, 50, 31, 31)).toBeNull();
+	});
+});
+
+/**
+ * Tests for limit and range goals (mirrors meetsStreakGoal and the renderer's getGoalState)
+ */
+describe('Limit and Range Goals', () => {
+	interface GoalConfig { goal?: number; goalType?: 'at-least' | 'at-most' | 'range'; goalMin?: number; goalMax?: number; streakThreshold?: number }
+
+	function meetsStreakGoal(value: number, config: GoalConfig, goal = config.goal): boolean {
+		if (config.goalType === 'range' && config.goalMin !== undefined && config.goalMax !== undefined) {
+			return value >= config.goalMin && value <= config.goalMax;
+		}
+		const limit = config.streakThreshold ?? goal;
+		if (config.goalType === 'at-most' && limit !== undefined) {
+			return value <= limit;
+		}
+		return config.streakThreshold !== undefined ? value >= config.streakThreshold : value > 0;
+	}
+
+	function getGoalState(count: number, config: GoalConfig): string | null {
+		if (config.goal === undefined) return null;
+		switch (config.goalType) {
+			case 'at-most':
+				if (count > config.goal) return 'over-limit';
+				return config.goal > 0 && count >= config.goal * 0.8 ? 'warning' : 'completed';
+			case 'range':
+				if (count > config.goal) return 'over-limit';
+				return count >= (config.goalMin ?? 0) ? 'completed' : null;
+			default:
+				return count >= config.goal ? 'completed' : null;
+		}
+	}
+
+	function getGoalPercentage(count: number, config: GoalConfig): number {
+		const goal = config.goal ?? 0;
+		if (goal > 0) return (count / goal) * 100;
+		return config.goalType === 'at-most' && count <= 0 ? 0 : 100;
+	}
+
+	const coffee: GoalConfig = { goalType: 'at-most', goal: 3 };
+	const sleep: GoalConfig = { goalType: 'range', goalMin: 7, goalMax: 9, goal: 9 };
+
+	it('should count days under the limit toward the streak, including days with none', () => {
+		expect([2, 3, 0, 4].map(v => meetsStreakGoal(v, coffee))).toEqual([true, true, true, false]);
+	});
+
+	it('should use a limit read from goalColumn', () => {
+		const fromColumn: GoalConfig = { goalType: 'at-most' };
+		expect([0, 2, 3].map(v => meetsStreakGoal(v, fromColumn, 2))).toEqual([true, true, false]);
+	});
+
+	it('should count days within the range toward the streak', () => {
+		expect([6.5, 7, 8.5, 9.5].map(v => meetsStreakGoal(v, sleep))).toEqual([false, true, true, false]);
+	});
+
+	it('should keep the default target behavior', () => {
+		expect(meetsStreakGoal(0, { goal: 3 })).toBe(false);
+		expect(meetsStreakGoal(1, { goal: 3 })).toBe(true);
+	});
+
+	it('should warn near the limit and flag values over it', () => {
+		expect(getGoalState(1, coffee)).toBe('completed');
+		expect(getGoalState(3, coffee)).toBe('warning');
+		expect(getGoalState(4, coffee)).toBe('over-limit');
+	});
+
+	it('should treat a zero limit as a goal, over as soon as anything is logged', () => {
+		const noAlcohol: GoalConfig = { goalType: 'at-most', goal: 0 };
+		expect(getGoalState(0, noAlcohol)).toBe('completed');
+		expect(getGoalState(5, noAlcohol)).toBe('over-limit');
+		expect(getGoalPercentage(0, noAlcohol)).toBe(0);
+		expect(getGoalPercentage(5, noAlcohol)).toBe(100);
+	});
+
+	it('should only complete a range between its bounds', () => {
+		expect(getGoalState(6, sleep)).toBeNull();
+		expect(getGoalState(8, sleep)).toBe('completed');
+		expect(getGoalState(10, sleep)).toBe('over-limit');
+	});
+});
+
+/**
+ * Tests for per-day and per-week goal scaling (mirrors getGoalScale, with weekdays 0 = Sunday)
+ */
+describe('Goal Scaling', () => {
+	function getGoalScale(
+		start: Date,
+		end: Date,
+		goalPer: 'day' | 'week',
+		weekdays: number[] = []
+	): number {
+		const days: Date[] = [];
+		for (const day = new Date(start); day <= end; day.setDate(day.getDate() + 1)) {
+			days.push(new Date(day));
+		}
+		if (goalPer === 'week') return days.length / 7;
+		return days.filter(d => weekdays.length === 0 || weekdays.includes(d.getDay())).length;
+	}
+
+	const march = { start: new Date(2026, 2, 1), end: new Date(2026, 2, 31) };
+
+	it('should multiply a daily goal by the days in the period', () => {
+		expect(30 * getGoalScale(new Date(2026, 2, 9), new Date(2026, 2, 15), 'day')).toBe(210);
+		expect(30 * getGoalScale(march.start, march.end, 'day')).toBe(930);
+	});
+
+	it('should only count scheduled weekdays', () => {
+		// March 2026 has 22 weekdays (Monday to Friday)
+		expect(getGoalScale(march.start, march.end, 'day', [1, 2, 3, 4, 5])).toBe(22);
+	});
+
+	it('should count only elapsed days when scaled to date', () => {
+		expect(getGoalScale(march.start, new Date(2026, 2, 10), 'day')).toBe(10);
+	});
+
+	it('should scale a weekly goal by fractional weeks', () => {
+		expect(4 * getGoalScale(march.start, march.end, 'week')).toBeCloseTo(17.71, 2);
+	});
+
+	it('should only scale the goal for totals and running totals', () => {
+		const usesTotalGoal = (type: string, cumulative = false) =>
+			['progress_bar', 'counter', 'percentage'].includes(type) || cumulative;
+		expect(usesTotalGoal('progress_bar')).toBe(true);
+		expect(usesTotalGoal('bar_chart')).toBe(false);
+		expect(usesTotalGoal('heatmap')).toBe(false);
+		expect(usesTotalGoal('line_plot')).toBe(false);
+		expect(usesTotalGoal('line_plot', true)).toBe(true);
+	});
+});
+
+/**
+ * Tests for mapping cell texts to numbers (mirrors the valueMap step of extractValue)
+ */
+describe('Value Map', () => {
+	function extractValue(cell: string, valueMap: Record<string, number>): number | null {
+		if (!cell) return null;
+		for (const [text, value] of Object.entries(valueMap)) {
+			if (cell.trim().toLowerCase() === text.trim().toLowerCase()) return value;
+		}
+		// Unmapped cells fall back to numeric parsing
+		const numMatch = cell.match(/-?\d+\.?\d*/);
+		return numMatch ? parseFloat(numMatch[0]) : null;
+	}
+
+	const mood = { great: 5, good: 4, ok: 3, bad: 1 };
+	const checks = { '✓': 1, '½': 0.5, '✗': 0 };
+
+	it('should map rating words, ignoring case', () => {
+		expect(['great', 'Good', 'OK', 'bad'].map(c => extractValue(c, mood))).toEqual([5, 4, 3, 1]);
+	});
+
+	it('should average mapped ratings', () => {
+		const values = ['great', 'ok', 'good'].map(c => extractValue(c, mood) ?? 0);
+		expect(values.reduce((acc, v) => acc + v, 0) / values.length).toBe(4);
+	});
+
+	it('should map symbols, keeping zero as a value', () => {
+		expect(['✓', '½', '✗'].map(c => extractValue(c, checks))).toEqual([1, 0.5, 0]);
+	});
+
+	it('should not match words inside longer text', () => {
+		expect(extractValue('not good', mood)).toBeNull();
+	});
+
+	it('should read unmapped cells as numbers', () => {
+		expect(extractValue('4.5', mood)).toBe(4.5);
+		expect(extractValue('', mood)).toBeNull();
+	});
+});
+
+describe('Tag and Link Sources', () => {
+	function normalizeTag(tag: string): string {
+		return tag.trim().replace(/^#/, '').toLowerCase();
+	}
+
+	function hasTag(tags: string[], tag: string): boolean {
+		const wanted = normalizeTag(tag);
+		return tags.some(t => {
+			const normalized = normalizeTag(t);
+			return normalized === wanted || normalized.startsWith(`${wanted}/`);
+		});
+	}
+
+	function getBacklinks(resolvedLinks: Record<string, Record<string, number>>, target: string): string[] {
+		return Object.entries(resolvedLinks)
+			.filter(([source, links]) => source !== target && links[target])
+			.map(([source]) => source);
+	}
+
+	const resolvedLinks: Record<string, Record<string, number>> = {
+		'Daily/2024-01-15.md': { 'Projects/Project X.md': 1 },
+		'Daily/2024-01-16.md': { 'Projects/Project X.md': 2, 'People/Ana.md': 1 },
+		'Projects/Project X.md': { 'Projects/Project X.md': 1, 'People/Ana.md': 1 }
+	};
+
+	it('should match tags with or without "#", ignoring case', () => {
+		expect(hasTag(['#Workout'], 'workout')).toBe(true);
+		expect(hasTag(['#workout'], '#WORKOUT')).toBe(true);
+	});
+
+	it('should include nested tags but not longer names', () => {
+		expect(hasTag(['#workout/run'], '#workout')).toBe(true);
+		expect(hasTag(['#workouts'], '#workout')).toBe(false);
+		expect(hasTag(['#workout'], '#workout/run')).toBe(false);
+	});
+
+	it('should find notes linking to a target, skipping self-links', () => {
+		expect(getBacklinks(resolvedLinks, 'Projects/Project X.md')).toEqual([
+			'Daily/2024-01-15.md',
+			'Daily/2024-01-16.md'
+		]);
+		expect(getBacklinks(resolvedLinks, 'People/Missing.md')).toEqual([]);
+	});
+});
+
+/**
+ * Tests for the calendar heatmap (mirrors getHeatmapLevel and the grid layout in renderHeatmap, Sunday-start weeks)
+ */
+describe('Calendar Heatmap', () => {
+	function getHeatmapLevel(value: number, scale: number): number {
+		if (value <= 0 || scale <= 0) return 0;
+		return Math.min(4, Math.ceil((value / scale) * 4));
+	}
+
+	/**
+	 * First grid day, number of weeks and the [week, row] cell of each date
+	 */
+	function getHeatmapGrid(dates: Date[], periodRange?: { start: Date; end: Date }) {
+		const timestamps = dates.map(d => d.getTime());
+		if (periodRange) {
+			timestamps.push(periodRange.start.getTime(), periodRange.end.getTime());
+		}
+		const first = new Date(Math.min(...timestamps));
+		const last = new Date(Math.max(...timestamps));
+		const firstDay = new Date(first.getFullYear(), first.getMonth(), first.getDate() - first.getDay());
+		const lastDay = new Date(last.getFullYear(), last.getMonth(), last.getDate() + 6 - last.getDay());
+		const totalDays = Math.round((lastDay.getTime() - firstDay.getTime()) / 86400000) + 1;
+		const cell = (date: Date) => {
+			const index = Math.round((date.getTime() - firstDay.getTime()) / 86400000);
+			return [Math.floor(index / 7), index % 7];
+		};
+		return { firstDay, totalWeeks: Math.ceil(totalDays / 7), cell };
+	}
+
+	it('should shade by quarters of the goal, full at the goal', () => {
+		expect([0, 5, 10, 15, 30, 45].map(v => getHeatmapLevel(v, 30))).toEqual([0, 1, 2, 2, 4, 4]);
+	});
+
+	it('should leave values at or below zero unshaded', () => {
+		expect(getHeatmapLevel(-3, 30)).toBe(0);
+		expect(getHeatmapLevel(5, 0)).toBe(0);
+	});
+
+	it('should lay out days as one column per week and one row per weekday', () => {
+		// Wednesday 2026-10-14 to Tuesday 2026-10-20
+		const grid = getHeatmapGrid([new Date(2026, 9, 14), new Date(2026, 9, 20)]);
+		expect(grid.firstDay).toEqual(new Date(2026, 9, 11));
+		expect(grid.totalWeeks).toBe(2);
+		expect(grid.cell(new Date(2026, 9, 14))).toEqual([0, 3]);
+		expect(grid.cell(new Date(2026, 9, 20))).toEqual([1, 2]);
+	});
+
+	it('should cover the whole period, not just the logged days', () => {
+		const october = { start: new Date(2026, 9, 1), end: new Date(2026, 9, 31) };
+		const grid = getHeatmapGrid([new Date(2026, 9, 14)], october);
+		// Sunday 2026-09-27 to Saturday 2026-10-31
+		expect(grid.firstDay).toEqual(new Date(2026, 8, 27));
+		expect(grid.totalWeeks).toBe(5);
+		expect(grid.cell(new Date(2026, 9, 31))).toEqual([4, 6]);
+	});
+});
+
+/**
+ * Tests for goal references read from notes (mirrors findGoalInTables and the frontmatter lookup in resolveGoalReference)
+ */
+describe('Goals from Other Notes', () => {
+	function findGoalInTables(content: string, rowName: string): number | null {
+		let goalColumnIndex = -1;
+
+		for (const line of content.split('\n')) {
+			if (!line.trim().startsWith('|')) {
+				goalColumnIndex = -1;
+				continue;
+			}
+
+			const cells = parseTableCells(line);
+			if (goalColumnIndex < 0) {
+				const headerIndex = cells.findIndex(h => /goal|target/i.test(h));
+				goalColumnIndex = headerIndex > 0 ? headerIndex : 1;
+				continue;
+			}
+
+			if (cells[0]?.toLowerCase() !== rowName.toLowerCase()) continue;
+			const value = parseFloat(cells[goalColumnIndex] ?? '');
+			if (!isNaN(value)) return value;
+		}
+
+		return null;
+	}
+
+	function readFrontmatterGoal(frontmatter: Record<string, unknown> | undefined, field: string): number | null {
+		const value: unknown = frontmatter?.[field];
+		const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+		return isNaN(parsed) ? null : parsed;
+	}
+
+	const goals = `# Goals
+
+| Habit    | Notes       | Target |
+|----------|-------------|--------|
+| Exercise | Any sport   | 5      |
+| Reading  | Books only  | 30     |
+
+Weekly:
+
+| Habit | Per week |
+| ----- | -------- |
+| Yoga  | 3        |
+| Sleep | 7.5      |`;
+
+	it('should read the "Goal" or "Target" column', () => {
+		expect(findGoalInTables(goals, 'Exercise')).toBe(5);
+		expect(findGoalInTables(goals, 'Reading')).toBe(30);
+	});
+
+	it('should fall back to the second column when no header names a goal', () => {
+		expect(findGoalInTables(goals, 'Yoga')).toBe(3);
+		expect(findGoalInTables(goals, 'Sleep')).toBe(7.5);
+	});
+
+	it('should match row names ignoring case', () => {
+		expect(findGoalInTables(goals, 'exercise')).toBe(5);
+		expect(findGoalInTables(goals, 'YOGA')).toBe(3);
+	});
+
+	it('should skip separator rows and return null for unknown rows', () => {
+		expect(findGoalInTables(goals, '----------')).toBeNull();
+		expect(findGoalInTables(goals, 'Running')).toBeNull();
+	});
+
+	it('should use the first row with a number when several tables have the row', () => {
+		const content = `| Habit | Goal |
+|---|---|
+| Run | n/a |
+
+| Habit | Goal |
+|---|---|
+| Run | 12 |`;
+		expect(findGoalInTables(content, 'Run')).toBe(12);
+	});
+
+	it('should read frontmatter numbers and numeric strings', () => {
+		const frontmatter = { weeklyTarget: 5, dailyTarget: '30', mood: 'great' };
+		expect(readFrontmatterGoal(frontmatter, 'weeklyTarget')).toBe(5);
+		expect(readFrontmatterGoal(frontmatter, 'dailyTarget')).toBe(30);
+		expect(readFrontmatterGoal(frontmatter, 'mood')).toBeNull();
+		expect(readFrontmatterGoal(frontmatter, 'missing')).toBeNull();
+		expect(readFrontmatterGoal(undefined, 'weeklyTarget')).toBeNull();
+	});
+});